@@ -1,45 +1,247 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import HoloGlobe from './components/HoloGlobe';
 import CommandTerminal from './components/CommandTerminal';
-import { TacticalRadar, IntensityChart, WarStats } from './components/HudWidgets';
+import ProviderSettings from './components/ProviderSettings';
+import ScenarioPanel from './components/ScenarioPanel';
+import ZoneDossier from './components/ZoneDossier';
+import CountrySearch from './components/CountrySearch';
+import { TacticalRadar, BattleTimeline, WarStats, OutcomeDistribution } from './components/HudWidgets';
 import { INITIAL_LOGS } from './constants';
-import { SystemLog, CountryFeature, WarState } from './types';
-import { getVisualRecon, simulateWarScenario } from './services/geminiService';
+import { SystemLog, CountryFeature, WarState, CampaignState, BatchSummary, FactionSide, SimulationReport, SavedScenario, ScenarioSnapshot, ConflictZone, Coordinates, GlobeCamera, WarTimeline } from './types';
+import { getTacticalAnalysis, getVisualRecon, simulateWarScenario, StreamHandlers } from './services/geminiService';
+import { formatSeed, getBelligerents, randomSeed } from './services/simulationEngine';
+import { detectDatasetFormat, findUnmatchedRecords, parseCountryDataset } from './services/countryDataset';
+import { getAllyCommitment, getDatasetSize, setCountryDataset } from './services/countryStats';
+import { createCampaign, formatCampaignTurn, getCampaignTimeline, stepCampaign } from './services/campaignEngine';
+import { runMonteCarlo } from './services/monteCarloRunner';
+import { formatSimulationReport, getReportTimeline } from './services/simulationReport';
+import { AiProviderId, PROVIDER_LABELS, ProviderSettings as ProviderSettingsValues, getActiveProviderId, getProviderSettings, setActiveProvider } from './services/aiProviders';
+import { COMMAND_HELP, CommandError, parseCommand, resolveCountry, resolveZone, TerminalCommand } from './services/terminalCommands';
+import {
+  captureScenario, decodeScenarioHash, deleteScenario, encodeScenarioHash, findScenario,
+  listScenarios, loadSession, restoreWarState, saveScenario, saveSession
+} from './services/scenarioStore';
+import { createZone, loadZones, saveZones, updateZone, ZoneEdit } from './services/zoneStore';
+import { loadBorderGraph } from './services/worldTopology';
+import { BorderGraph, getFrontLine, getTheatreTerrain } from './services/borderGraph';
+import { applyWarPressure, getWarTheatre, relaxZoneTensions, ThreatChange, THREAT_ORDER } from './services/zoneIntel';
+
+// Cap per import so a broken file cannot flood the terminal
+const MAX_DATASET_ERRORS_LOGGED = 8;
+const CAMPAIGN_TURN_INTERVAL_MS = 700;
+const REPLAY_TURN_INTERVAL_MS = 400; // Battle timeline replay: one week per tick on the globe
+const MONTE_CARLO_RUNS = 1000;
+// Oldest entries are dropped beyond this; the terminal is virtualized, memory is the limit
+const MAX_LOG_ENTRIES = 5000;
+// Zone threat evolution: tension added next to a war (fades out with distance), and the relaxation back to baseline
+const SIMULATION_WAR_PRESSURE = 20;
+const CAMPAIGN_WAR_PRESSURE = 8; // Per week, scaled by the week's combat intensity
+const ZONE_RELAX_INTERVAL_MS = 15000;
+const ZONE_RELAX_AMOUNT = 2;
+
+const EMPTY_WAR_STATE: WarState = { aggressor: null, defender: null, aggressorAllies: [], defenderAllies: [], allyCommitment: {} };
+
+const isAlly = (state: WarState, country: CountryFeature) =>
+  state.aggressorAllies.some(a => a.id === country.id) || state.defenderAllies.some(a => a.id === country.id);
+
+const isParticipant = (state: WarState, country: CountryFeature) =>
+  state.aggressor?.id === country.id || state.defender?.id === country.id || isAlly(state, country);
+
+const getParticipants = (state: WarState) =>
+  [state.aggressor, state.defender, ...state.aggressorAllies, ...state.defenderAllies].filter((c): c is CountryFeature => !!c);
+
+// Who fights on which side; ally commitments tune a matchup without changing it
+const getMatchupKey = (state: WarState) => JSON.stringify([
+  state.aggressor?.id ?? null,
+  state.defender?.id ?? null,
+  state.aggressorAllies.map(c => c.id),
+  state.defenderAllies.map(c => c.id)
+]);
+
+interface CoalitionListProps {
+  allies: CountryFeature[];
+  commitments: Record<string, number>;
+  onCommitmentChange: (ally: CountryFeature, commitment: number) => void;
+  tone: 'orange' | 'cyan';
+}
+
+// Coalition members with a per-ally commitment slider (share of the ally's power committed)
+const CoalitionList: React.FC<CoalitionListProps> = ({ allies, commitments, onCommitmentChange, tone }) => {
+  if (allies.length === 0) return null;
+  const colors = tone === 'orange'
+    ? { border: 'border-orange-500/30', label: 'text-orange-300', text: 'text-orange-100', accent: 'accent-orange-500' }
+    : { border: 'border-cyan-500/30', label: 'text-cyan-300', text: 'text-cyan-100', accent: 'accent-cyan-500' };
+
+  return (
+    <div className={`mt-2 pt-2 border-t ${colors.border}`}>
+        <div className={`text-[9px] ${colors.label} mb-1`}>COALITION FORCES:</div>
+        <div className="flex flex-col gap-1">
+            {allies.map(ally => {
+                const commitment = getAllyCommitment(commitments, ally);
+                return (
+                    <div key={ally.id} className="flex items-center gap-2 text-[10px] font-mono">
+                        <span className={`flex-1 truncate ${colors.text}`}>{ally.properties.name}</span>
+                        <input
+                            type="range"
+                            min={10}
+                            max={100}
+                            step={10}
+                            value={Math.round(commitment * 100)}
+                            onChange={e => onCommitmentChange(ally, Number(e.target.value) / 100)}
+                            className={`w-20 h-1 ${colors.accent}`}
+                            title="Commitment level"
+                        />
+                        <span className="w-8 text-right text-slate-400">{Math.round(commitment * 100)}%</span>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
 
 const App: React.FC = () => {
   const [logs, setLogs] = useState<SystemLog[]>(INITIAL_LOGS);
-  const [warState, setWarState] = useState<WarState>({ aggressor: null, defender: null, defenderAllies: [] });
+  const [liveLog, setLiveLog] = useState<SystemLog | null>(null); // AI output still streaming in
+  const [warState, setWarState] = useState<WarState>(EMPTY_WAR_STATE);
   const [isSimulating, setIsSimulating] = useState(false);
   const [isReconLoading, setIsReconLoading] = useState(false);
   const [reconImage, setReconImage] = useState<string | null>(null);
   
-  // Selection mode for adding allies
-  const [isSelectingAlly, setIsSelectingAlly] = useState(false);
+  // Selection mode for adding allies (which coalition the next click joins)
+  const [allySelectSide, setAllySelectSide] = useState<FactionSide | null>(null);
+
+  const datasetInputRef = useRef<HTMLInputElement>(null);
+
+  // Campaign Mode (multi-turn war)
+  const [campaign, setCampaign] = useState<CampaignState | null>(null);
+  const [isCampaignRunning, setIsCampaignRunning] = useState(false);
+  const campaignRef = useRef<CampaignState | null>(null);
+  const campaignTheatreRef = useRef<[number, number][]>([]); // Where the campaign is fought, for zone pressure
+  const [lastCampaign, setLastCampaign] = useState<CampaignState | null>(null); // Closed campaign, kept for the timeline
+
+  // Battle timeline cursor: the week shown on the globe, scrubbed by hover or stepped by a replay
+  const [replayTurn, setReplayTurn] = useState<number | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  // Monte Carlo batch results
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+
+  // AI backend selection
+  const [providerId, setProviderId] = useState<AiProviderId>(getActiveProviderId());
+  const [isProviderPanelOpen, setIsProviderPanelOpen] = useState(false);
+
+  // Single-run reports for the current matchup, newest last. The latest drives
+  // the globe victor highlight and WarStats.
+  const [reports, setReports] = useState<SimulationReport[]>([]);
+  const lastReport = reports[reports.length - 1] ?? null;
+  const replaySeed = lastReport?.source === 'PROCEDURAL' ? lastReport.seed : null; // AI reports cannot be replayed
+
+  // Battle timeline: whichever war was fought last, a single run or a campaign
+  const [timelineSource, setTimelineSource] = useState<WarTimeline['source']>('SIMULATION');
+  const timelineCampaign = campaign ?? lastCampaign;
+  const timeline = useMemo(() => {
+    const fromCampaign = timelineCampaign ? getCampaignTimeline(timelineCampaign) : null;
+    const fromReport = lastReport ? getReportTimeline(lastReport) : null;
+    return timelineSource === 'CAMPAIGN' ? fromCampaign ?? fromReport : fromReport ?? fromCampaign;
+  }, [timelineCampaign, lastReport, timelineSource]);
+  const replayWeek = replayTurn !== null ? timeline?.points[replayTurn - 1] ?? null : null;
+  const pendingReportsRef = useRef<SimulationReport[] | null>(null); // Restored with a scenario; survives the matchup reset
+  const [restoreCount, setRestoreCount] = useState(0); // Bumped per restored scenario, even one with the same matchup
+
+  // Scenario archive
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(listScenarios);
+  const [isScenarioPanelOpen, setIsScenarioPanelOpen] = useState(false);
+  const hasRestoredRef = useRef(false); // Startup restore (share link or last session) done
 
-  const addLog = useCallback((message: string, type: SystemLog['type'] = 'INFO') => {
+  // Conflict zones (user-editable, persisted) and the open dossier
+  const [zones, setZones] = useState<ConflictZone[]>(loadZones);
+  const zonesRef = useRef(zones); // Latest zones for timers and evolution
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId) ?? null;
+  const [isSitrepLoading, setIsSitrepLoading] = useState(false);
+  const [isPlacingZone, setIsPlacingZone] = useState(false); // Next globe click drops a new zone
+
+  // Globe camera (null while the recon feed replaces the globe)
+  const globeRef = useRef<GlobeCamera>(null);
+  const participantIdsRef = useRef(new Set<string | number>()); // Participants already shown, to spot new picks
+  const [hoveredCountry, setHoveredCountry] = useState<CountryFeature | null>(null); // From the country index
+
+  // Countries from the loaded topology (terminal name lookup and completion)
+  const [countries, setCountries] = useState<CountryFeature[]>([]);
+
+  // Land borders: the land front between the blocs and the terrain the war is fought on
+  const [borderGraph, setBorderGraph] = useState<BorderGraph | null>(null);
+  const frontLine = useMemo(() => borderGraph ? getFrontLine(borderGraph, warState) : null, [borderGraph, warState]);
+  const terrain = useMemo(() => borderGraph ? getTheatreTerrain(borderGraph, warState) : undefined, [borderGraph, warState]);
+
+  const addLog = useCallback((message: string, type: SystemLog['type'] = 'INFO', report?: SimulationReport) => {
     const newLog: SystemLog = {
       id: Math.random().toString(36).substr(2, 9),
       timestamp: new Date().toLocaleTimeString('en-US', { hour12: false }),
       message,
+      type,
+      report
+    };
+    setLogs(prev => [...prev, newLog].slice(-MAX_LOG_ENTRIES));
+  }, []);
+
+  // Streamed AI output is shown as a live entry until the caller logs the final result and closes it
+  const openLogStream = useCallback((type: SystemLog['type']): StreamHandlers & { close: () => void } => {
+    const entry: SystemLog = {
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp: new Date().toLocaleTimeString('en-US', { hour12: false }),
+      message: '',
       type
     };
-    setLogs(prev => [...prev, newLog]);
+    setLiveLog(entry);
+    // Only touch the live entry while it is still ours; a newer stream may have replaced it
+    const close = () => setLiveLog(prev => prev?.id === entry.id ? null : prev);
+    return {
+      onText: text => setLiveLog(prev => prev?.id === entry.id ? { ...prev, message: text } : prev),
+      onInterrupted: text => {
+        close();
+        setLogs(prev => [...prev, { ...entry, message: text, truncated: true }].slice(-MAX_LOG_ENTRIES));
+      },
+      close
+    };
+  }, []);
+
+  const commitZones = useCallback((next: ConflictZone[]) => {
+    zonesRef.current = next;
+    setZones(next);
   }, []);
 
+  // Applies a threat evolution step and reports zones that crossed a level
+  const evolveZones = useCallback((evolve: (current: ConflictZone[]) => { zones: ConflictZone[]; changes: ThreatChange[] }) => {
+    const { zones: next, changes } = evolve(zonesRef.current);
+    if (next.every((zone, i) => zone === zonesRef.current[i])) return;
+    commitZones(next);
+    changes.forEach(({ zone, from, to }) => {
+      if (THREAT_ORDER.indexOf(to) > THREAT_ORDER.indexOf(from)) {
+        addLog(`ZONE ESCALATION: ${zone.name} ${from} -> ${to}`, 'WARNING');
+      } else {
+        addLog(`Zone de-escalated: ${zone.name} ${from} -> ${to}`, 'INFO');
+      }
+    });
+  }, [addLog, commitZones]);
+
   const handleCountrySelect = useCallback((country: CountryFeature) => {
     setWarState(prev => {
       // 1. Ally Selection Mode
-      if (isSelectingAlly) {
+      if (allySelectSide) {
         // Prevent selecting self or already selected
-        if (prev.aggressor?.id === country.id || prev.defender?.id === country.id || prev.defenderAllies.some(a => a.id === country.id)) {
+        if (isParticipant(prev, country)) {
             addLog(`Invalid Ally Selection: ${country.properties.name}`, 'WARNING');
             return prev;
         }
-        addLog(`Ally added to coalition: ${country.properties.name}`, 'INFO');
-        setIsSelectingAlly(false); // Turn off mode after selection
+        const key = allySelectSide === 'A' ? 'aggressorAllies' : 'defenderAllies';
+        addLog(`Ally added to Faction ${allySelectSide} coalition: ${country.properties.name}`, 'INFO');
+        setAllySelectSide(null); // Turn off mode after selection
         return {
             ...prev,
-            defenderAllies: [...prev.defenderAllies, country]
+            [key]: [...prev[key], country]
         };
       }
 
@@ -48,7 +250,7 @@ const App: React.FC = () => {
       // If clicking the same country, deselect it
       if (prev.aggressor?.id === country.id) {
         addLog(`Faction A (${country.properties.name}) deselected.`, 'INFO');
-        return { ...prev, aggressor: null };
+        return { ...prev, aggressor: null, aggressorAllies: [] }; // Reset allies if aggressor clears
       }
       if (prev.defender?.id === country.id) {
         addLog(`Faction B (${country.properties.name}) deselected.`, 'INFO');
@@ -56,10 +258,11 @@ const App: React.FC = () => {
       }
       
       // Check if clicking an existing ally -> remove it
-      if (prev.defenderAllies.some(a => a.id === country.id)) {
+      if (isAlly(prev, country)) {
           addLog(`Ally (${country.properties.name}) removed from coalition.`, 'INFO');
           return {
               ...prev,
+              aggressorAllies: prev.aggressorAllies.filter(a => a.id !== country.id),
               defenderAllies: prev.defenderAllies.filter(a => a.id !== country.id)
           };
       }
@@ -74,29 +277,228 @@ const App: React.FC = () => {
       } else {
         // If both full, reset Aggressor to new selection, clear Defender (Start over)
         addLog(`Selection reset. Faction A: ${country.properties.name}`, 'INFO');
-        return { aggressor: country, defender: null, defenderAllies: [] };
+        return { ...EMPTY_WAR_STATE, aggressor: country };
       }
     });
     setReconImage(null);
-  }, [addLog, isSelectingAlly]);
+  }, [addLog, allySelectSide]);
 
-  const triggerWarSimulation = async () => {
-    if (!warState.aggressor || !warState.defender) return;
+  // Direct assignment (terminal, country index); the globe click flow above toggles instead
+  const assignFaction = (side: FactionSide, country: CountryFeature) => {
+    if (isParticipant(warState, country)) throw new CommandError(`${country.properties.name} is already part of the conflict.`);
+    setWarState(prev => ({ ...prev, [side === 'A' ? 'aggressor' : 'defender']: country }));
+    setReconImage(null);
+    addLog(`Faction ${side} selected: ${country.properties.name}`, 'INFO');
+  };
+
+  const addAlly = (side: FactionSide, country: CountryFeature) => {
+    if (!(side === 'A' ? warState.aggressor : warState.defender)) throw new CommandError(`Assign Faction ${side} before calling allies.`);
+    if (isParticipant(warState, country)) throw new CommandError(`Invalid Ally Selection: ${country.properties.name} is already part of the conflict.`);
+    const key = side === 'A' ? 'aggressorAllies' : 'defenderAllies';
+    setWarState(prev => ({ ...prev, [key]: [...prev[key], country] }));
+    setAllySelectSide(null);
+    addLog(`Ally added to Faction ${side} coalition: ${country.properties.name}`, 'INFO');
+  };
+
+  const setAllyCommitment = (ally: CountryFeature, commitment: number) => {
+    setWarState(prev => ({
+      ...prev,
+      allyCommitment: { ...prev.allyCommitment, [String(ally.id)]: commitment }
+    }));
+  };
+
+  const triggerWarSimulation = async (seed: number = randomSeed()) => {
+    const belligerents = getBelligerents(warState, terrain);
+    if (!belligerents) return;
     
     setIsSimulating(true);
-    const nameA = warState.aggressor.properties.name;
-    const nameB = warState.defender.properties.name;
-    const allies = warState.defenderAllies.map(a => a.properties.name);
+    const nameA = belligerents.aggressor.properties.name;
+    const nameB = belligerents.defender.properties.name;
+    const alliesA = belligerents.aggressorAllies.length;
+    const alliesB = belligerents.defenderAllies.length;
 
-    addLog(`INITIATING WAR SIMULATION: ${nameA} vs ${nameB} ${allies.length > 0 ? `(+ ${allies.length} Allies)` : ''}`, 'WARNING');
-    addLog(`Calculating kinetic outcomes...`, 'INFO');
+    addLog(`INITIATING WAR SIMULATION: ${nameA}${alliesA > 0 ? ` (+ ${alliesA} Allies)` : ''} vs ${nameB}${alliesB > 0 ? ` (+ ${alliesB} Allies)` : ''}`, 'WARNING');
+    addLog(`Calculating kinetic outcomes... [SEED ${formatSeed(seed)}]`, 'INFO');
+    globeRef.current?.frameTheatre(getParticipants(warState));
     
-    const analysis = await simulateWarScenario(nameA, nameB, allies);
+    const stream = openLogStream('COMBAT');
+    const report = await simulateWarScenario(belligerents, seed, stream);
     
-    addLog(analysis, 'COMBAT');
+    stream.close();
+    setReports(prev => [...prev, report]);
+    setTimelineSource('SIMULATION');
+    setIsReplaying(false);
+    setReplayTurn(null);
+    addLog(formatSimulationReport(report), 'COMBAT', report);
+    evolveZones(current => applyWarPressure(current, getWarTheatre(belligerents), SIMULATION_WAR_PRESSURE));
     setIsSimulating(false);
   };
 
+  const triggerMonteCarlo = async (runs: number = MONTE_CARLO_RUNS, baseSeed: number = randomSeed()) => {
+    const belligerents = getBelligerents(warState, terrain);
+    if (!belligerents) return;
+
+    setIsBatchRunning(true);
+    addLog(`MONTE CARLO: ${runs} runs of ${belligerents.aggressor.properties.name} vs ${belligerents.defender.properties.name} [BASE SEED ${formatSeed(baseSeed)}]`, 'INFO');
+
+    try {
+      const summary = await runMonteCarlo({ ...belligerents, runs, baseSeed });
+      setBatchSummary(summary);
+      const [low, high] = summary.confidenceInterval;
+      addLog(`Batch complete: ${summary.aggressor} wins ${(summary.winProbability * 100).toFixed(1)}% (95% CI ${(low * 100).toFixed(1)}-${(high * 100).toFixed(1)}%), avg. ${summary.averageDurationWeeks.toFixed(1)} weeks.`, 'COMBAT');
+    } catch (error) {
+      addLog(`Monte Carlo batch failed: ${(error as Error).message}`, 'ERROR');
+    }
+    setIsBatchRunning(false);
+  };
+
+  // Turn the globe to a newly picked faction or ally; a restored scenario (several at once) is framed whole
+  useEffect(() => {
+    const participants = getParticipants(warState);
+    const added = participants.filter(c => !participantIdsRef.current.has(c.id));
+    participantIdsRef.current = new Set(participants.map(c => c.id));
+    if (added.length === 1) {
+      globeRef.current?.focusCountry(added[0]);
+    } else if (added.length > 1) {
+      globeRef.current?.frameTheatre(participants);
+    }
+  }, [warState]);
+
+  // Batches and reports describe one matchup; drop them once the matchup changes
+  // (a restored scenario brings its own reports)
+  const matchupKey = getMatchupKey(warState);
+  useEffect(() => {
+    setBatchSummary(null);
+    setReports(pendingReportsRef.current ?? []);
+    pendingReportsRef.current = null;
+  }, [matchupKey, restoreCount]);
+
+  const startCampaign = (seed: number = randomSeed()) => {
+    const belligerents = getBelligerents(warState, terrain);
+    if (!belligerents) return;
+    const initial = createCampaign(belligerents, seed);
+    campaignRef.current = initial;
+    campaignTheatreRef.current = getWarTheatre(belligerents);
+    globeRef.current?.frameTheatre(getParticipants(warState));
+    setCampaign(initial);
+    setTimelineSource('CAMPAIGN');
+    setIsReplaying(false);
+    setReplayTurn(null);
+    addLog(`CAMPAIGN OPENED: ${initial.aggressor.name} vs ${initial.defender.name} [SEED ${formatSeed(seed)}]`, 'WARNING');
+  };
+
+  const advanceCampaign = useCallback(() => {
+    const current = campaignRef.current;
+    if (!current || current.outcome) return;
+    const next = stepCampaign(current);
+    campaignRef.current = next;
+    setCampaign(next);
+    addLog(formatCampaignTurn(next), 'COMBAT');
+    const week = next.history[next.history.length - 1];
+    if (week) evolveZones(zones => applyWarPressure(zones, campaignTheatreRef.current, week.intensity * CAMPAIGN_WAR_PRESSURE));
+    if (next.outcome) setIsCampaignRunning(false);
+  }, [addLog, evolveZones]);
+
+  const endCampaign = () => {
+    const current = campaignRef.current;
+    if (current && !current.outcome) {
+      addLog(`Campaign halted by command at week ${current.turn}.`, 'WARNING');
+    }
+    campaignRef.current = null;
+    setCampaign(null);
+    setLastCampaign(current);
+    setIsCampaignRunning(false);
+  };
+
+  // Run-to-completion: one turn per tick until the campaign resolves or is stopped
+  useEffect(() => {
+    if (!isCampaignRunning) return;
+    const interval = setInterval(advanceCampaign, CAMPAIGN_TURN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isCampaignRunning, advanceCampaign]);
+
+  // A campaign is fought between fixed factions: swapping either one closes it (and its timeline)
+  const aggressorId = warState.aggressor?.id ?? null;
+  const defenderId = warState.defender?.id ?? null;
+  useEffect(() => {
+    const current = campaignRef.current;
+    if (current && !current.outcome) addLog(`Campaign halted at week ${current.turn}: the matchup changed.`, 'WARNING');
+    campaignRef.current = null;
+    setCampaign(null);
+    setLastCampaign(null);
+    setIsCampaignRunning(false);
+    setIsReplaying(false);
+    setReplayTurn(null);
+  }, [aggressorId, defenderId, addLog]);
+
+  // Replay: steps the cursor through the recorded weeks, then hands the globe back
+  useEffect(() => {
+    if (!isReplaying) return;
+    const weeks = timeline?.points.length ?? 0;
+    const timeout = setTimeout(() => {
+      if (replayTurn === null || replayTurn < weeks) {
+        setReplayTurn((replayTurn ?? 0) + 1);
+      } else {
+        setIsReplaying(false);
+        setReplayTurn(null);
+      }
+    }, replayTurn === null ? 0 : REPLAY_TURN_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isReplaying, replayTurn, timeline]);
+
+  const toggleReplay = () => {
+    setReplayTurn(null);
+    setIsReplaying(!isReplaying);
+  };
+
+  const applyProviderSettings = (id: AiProviderId, settings: ProviderSettingsValues) => {
+    setActiveProvider(id, settings);
+    setProviderId(id);
+    setIsProviderPanelOpen(false);
+    addLog(
+      id === 'offline'
+        ? 'AI link severed. Operating on procedural engine only.'
+        : `AI link switched to ${PROVIDER_LABELS[id]} (${settings.model}).`,
+      id === 'offline' ? 'WARNING' : 'INFO'
+    );
+  };
+
+  const handleDatasetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    addLog(`Importing country dataset: ${file.name}...`, 'INFO');
+    const text = await file.text();
+    const dataset = parseCountryDataset(text, detectDatasetFormat(file.name, text));
+
+    dataset.errors.slice(0, MAX_DATASET_ERRORS_LOGGED).forEach(error => addLog(`Dataset ${file.name}: ${error}`, 'ERROR'));
+    if (dataset.errors.length > MAX_DATASET_ERRORS_LOGGED) {
+      addLog(`Dataset ${file.name}: ${dataset.errors.length - MAX_DATASET_ERRORS_LOGGED} further validation errors suppressed.`, 'ERROR');
+    }
+
+    // Checked against the loaded map; until it loads, every record is assumed to match
+    const unmatched = countries.length > 0 ? findUnmatchedRecords(dataset, countries) : [];
+    unmatched.slice(0, MAX_DATASET_ERRORS_LOGGED).forEach(key =>
+      addLog(`Dataset ${file.name}: "${key}" matches no country on the map. Use the ISO numeric code (e.g. 250) or the country name.`, 'ERROR'));
+    if (unmatched.length > MAX_DATASET_ERRORS_LOGGED) {
+      addLog(`Dataset ${file.name}: ${unmatched.length - MAX_DATASET_ERRORS_LOGGED} further unmatched records suppressed.`, 'ERROR');
+    }
+
+    const recordCount = dataset.byId.size + dataset.byName.size - unmatched.length;
+    if (recordCount === 0) {
+      addLog(`Dataset rejected: no valid country records in ${file.name}.`, 'WARNING');
+      return;
+    }
+    setCountryDataset(dataset);
+    addLog(`Dataset loaded: ${recordCount} countries overridden. Remaining nations use estimated values.`, 'INFO');
+  };
+
+  const clearDataset = () => {
+    setCountryDataset(null);
+    addLog('Country dataset unloaded. All stats reverted to estimated values.', 'INFO');
+  };
+
   const triggerVisualRecon = async () => {
     const target = warState.aggressor || warState.defender;
     if (!target) return;
@@ -116,6 +518,371 @@ const App: React.FC = () => {
     setIsReconLoading(false);
   };
 
+  // --- CONFLICT ZONES ---
+
+  const requestSitrep = async (zone: ConflictZone) => {
+    setIsSitrepLoading(true);
+    addLog(`Requesting SITREP: ${zone.name} [THREAT ${zone.threatLevel}]`, 'INFO');
+
+    const stream = openLogStream('AI');
+    const sitrep = await getTacticalAnalysis(zone, stream);
+
+    stream.close();
+    addLog(sitrep, 'AI');
+    setIsSitrepLoading(false);
+  };
+
+  const openZone = (zone: ConflictZone) => {
+    setSelectedZoneId(zone.id);
+    globeRef.current?.flyTo(zone.coordinates);
+    if (!isSitrepLoading) requestSitrep(zone);
+  };
+
+  const addZone = (coordinates: Coordinates, name?: string) => {
+    const zone = createZone(coordinates, name);
+    commitZones([...zonesRef.current, zone]);
+    setIsPlacingZone(false);
+    setSelectedZoneId(zone.id);
+    addLog(`Conflict zone established: ${zone.name} (${zone.coordinates.lat.toFixed(2)}, ${zone.coordinates.lng.toFixed(2)}).`, 'INFO');
+  };
+
+  const editZone = (zone: ConflictZone, edit: ZoneEdit) => {
+    if (edit.name !== undefined && !edit.name.trim()) throw new CommandError('Zone name cannot be empty.');
+    commitZones(updateZone(zonesRef.current, zone.id, edit));
+    addLog(`Zone updated: ${edit.name ?? zone.name}.`, 'INFO');
+  };
+
+  const removeZone = (zone: ConflictZone) => {
+    commitZones(zonesRef.current.filter(z => z.id !== zone.id));
+    if (selectedZoneId === zone.id) setSelectedZoneId(null);
+    addLog(`Conflict zone removed: ${zone.name}.`, 'INFO');
+  };
+
+  useEffect(() => {
+    saveZones(zones);
+  }, [zones]);
+
+  // Without fresh fighting, zone tensions drift back to their authored levels
+  useEffect(() => {
+    const interval = setInterval(() => evolveZones(current => relaxZoneTensions(current, ZONE_RELAX_AMOUNT)), ZONE_RELAX_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [evolveZones]);
+
+  // --- SCENARIOS ---
+
+  const applyScenario = (snapshot: ScenarioSnapshot, label: string, available: CountryFeature[], savedReports: SimulationReport[] = []) => {
+    const { warState: restored, missingIds } = restoreWarState(snapshot, available);
+    pendingReportsRef.current = savedReports;
+    setRestoreCount(count => count + 1);
+    setWarState(restored);
+    setAllySelectSide(null);
+    setReconImage(null);
+
+    const nameA = restored.aggressor?.properties.name ?? '---';
+    const nameB = restored.defender?.properties.name ?? '---';
+    addLog(`Scenario ${label} loaded: ${nameA} vs ${nameB}.`, 'INFO');
+    if (missingIds.length > 0) addLog(`Scenario references unknown territories (ids ${missingIds.join(', ')}); skipped.`, 'WARNING');
+    if (snapshot.seed !== null) addLog(`Replay the last simulation with: simulate --seed ${formatSeed(snapshot.seed)}`, 'INFO');
+  };
+
+  const saveCurrentScenario = (name: string) => {
+    if (!warState.aggressor && !warState.defender) throw new CommandError('Nothing to save: select at least one faction.');
+    const saved = saveScenario({
+      ...captureScenario(warState, replaySeed),
+      name,
+      savedAt: new Date().toISOString(),
+      aiProvider: providerId,
+      reports
+    });
+    if (!saved) throw new CommandError('Could not save scenario: browser storage is full or disabled.');
+    setScenarios(listScenarios());
+    addLog(`Scenario saved: "${name}"${reports.length > 0 ? ` with ${reports.length} report(s)` : ''}.`, 'INFO');
+  };
+
+  const loadSavedScenario = (scenario: SavedScenario) => {
+    if (countries.length === 0) throw new CommandError('Map data not loaded yet.');
+    applyScenario(scenario, `"${scenario.name}"`, countries, scenario.reports);
+    scenario.reports.forEach(report => addLog(formatSimulationReport(report), 'COMBAT', report));
+    if (scenario.aiProvider !== providerId && scenario.aiProvider in PROVIDER_LABELS) {
+      const id = scenario.aiProvider as AiProviderId;
+      applyProviderSettings(id, getProviderSettings(id));
+    }
+    setIsScenarioPanelOpen(false);
+  };
+
+  const removeScenario = (name: string) => {
+    if (!deleteScenario(name)) throw new CommandError(`No saved scenario named "${name}".`);
+    setScenarios(listScenarios());
+    addLog(`Scenario deleted: "${name}".`, 'INFO');
+  };
+
+  const shareScenario = () => {
+    if (!warState.aggressor && !warState.defender) throw new CommandError('Nothing to share: select at least one faction.');
+    const hash = encodeScenarioHash(captureScenario(warState, replaySeed));
+    window.history.replaceState(null, '', hash);
+    const url = window.location.href;
+    navigator.clipboard?.writeText(url)
+      .then(() => addLog(`Share link copied to clipboard: ${url}`, 'INFO'))
+      .catch(() => addLog(`Share link: ${url}`, 'INFO'));
+  };
+
+  // First topology load: restore a shared link if present, otherwise the last session
+  // Without the graph every war is fought on neutral terrain
+  useEffect(() => {
+    loadBorderGraph()
+      .then(setBorderGraph)
+      .catch(error => addLog(`Border data unavailable: ${(error as Error).message}. Terrain effects disabled.`, 'ERROR'));
+  }, [addLog]);
+
+  const handleCountriesLoaded = (loaded: CountryFeature[]) => {
+    setCountries(loaded);
+    if (hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+
+    const shared = decodeScenarioHash(window.location.hash);
+    if (shared) {
+      applyScenario(shared, 'from shared link', loaded);
+      // From here on the autosaved session is authoritative; a stale hash would override it on refresh
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      return;
+    }
+    const session = loadSession();
+    if (session && (session.scenario.aggressorId || session.scenario.defenderId || session.logs.length > 0)) {
+      setLogs(prev => [...session.logs, ...prev]);
+      applyScenario(session.scenario, 'from last session', loaded, session.scenario.reports);
+    }
+  };
+
+  // Links opened while the app is already running
+  useEffect(() => {
+    const onHashChange = () => {
+      const shared = decodeScenarioHash(window.location.hash);
+      if (shared && countries.length > 0) applyScenario(shared, 'from shared link', countries);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [countries]);
+
+  // Autosave the working session so a refresh loses nothing
+  useEffect(() => {
+    if (!hasRestoredRef.current) return;
+    saveSession({
+      scenario: {
+        ...captureScenario(warState, replaySeed),
+        name: 'session',
+        savedAt: new Date().toISOString(),
+        aiProvider: providerId,
+        reports
+      },
+      logs
+    });
+  }, [warState, reports, logs, providerId]);
+
+  // --- TERMINAL COMMANDS (every clickable action is also scriptable) ---
+
+  const lookupCountry = (name: string) => {
+    if (countries.length === 0) throw new CommandError('Map data not loaded yet.');
+    return resolveCountry(name, countries);
+  };
+
+  const requireMatchup = () => {
+    if (!getBelligerents(warState)) throw new CommandError('Select Faction A and Faction B first.');
+  };
+
+  const runCommand = (command: TerminalCommand) => {
+    switch (command.name) {
+      case 'help':
+        addLog(['AVAILABLE COMMANDS:', ...COMMAND_HELP.map(([usage, description]) => `${usage} - ${description}`)].join('\n'), 'INFO');
+        return;
+      case 'clear':
+        setLogs([]);
+        return;
+      case 'reset':
+        setWarState(EMPTY_WAR_STATE);
+        setAllySelectSide(null);
+        setReconImage(null);
+        addLog('Conflict configuration reset.', 'INFO');
+        return;
+      case 'select':
+        assignFaction(command.side, lookupCountry(command.country));
+        return;
+      case 'deselect': {
+        const leader = command.side === 'A' ? warState.aggressor : warState.defender;
+        if (!leader) throw new CommandError(`Faction ${command.side} is not assigned.`);
+        setWarState(prev => command.side === 'A'
+          ? { ...prev, aggressor: null, aggressorAllies: [] }
+          : { ...prev, defender: null, defenderAllies: [] });
+        addLog(`Faction ${command.side} (${leader.properties.name}) deselected.`, 'INFO');
+        return;
+      }
+      case 'ally-add':
+        addAlly(command.side, lookupCountry(command.country));
+        return;
+      case 'ally-remove': {
+        const country = lookupCountry(command.country);
+        if (!isAlly(warState, country)) throw new CommandError(`${country.properties.name} is not a coalition member.`);
+        setWarState(prev => ({
+          ...prev,
+          aggressorAllies: prev.aggressorAllies.filter(a => a.id !== country.id),
+          defenderAllies: prev.defenderAllies.filter(a => a.id !== country.id)
+        }));
+        addLog(`Ally (${country.properties.name}) removed from coalition.`, 'INFO');
+        return;
+      }
+      case 'ally-commit': {
+        const country = lookupCountry(command.country);
+        if (!isAlly(warState, country)) throw new CommandError(`${country.properties.name} is not a coalition member.`);
+        setAllyCommitment(country, command.commitment);
+        addLog(`${country.properties.name} commitment set to ${Math.round(command.commitment * 100)}%.`, 'INFO');
+        return;
+      }
+      case 'simulate':
+        requireMatchup();
+        if (isSimulating) throw new CommandError('A simulation is already running.');
+        triggerWarSimulation(command.seed);
+        return;
+      case 'batch':
+        requireMatchup();
+        if (isBatchRunning) throw new CommandError('A batch is already running.');
+        triggerMonteCarlo(command.runs, command.seed);
+        return;
+      case 'campaign':
+        if (command.action === 'start') {
+          requireMatchup();
+          if (campaign && !campaign.outcome) throw new CommandError('A campaign is already in progress. Use "campaign end" first.');
+          setIsCampaignRunning(false);
+          startCampaign(command.seed);
+          return;
+        }
+        if (!campaign) throw new CommandError('No active campaign. Use "campaign start".');
+        if (command.action === 'end') {
+          endCampaign();
+          return;
+        }
+        if (campaign.outcome) throw new CommandError('The campaign is over. Use "campaign end" to close it.');
+        if (command.action === 'step') {
+          if (isCampaignRunning) throw new CommandError('Campaign is running. Use "campaign stop" first.');
+          advanceCampaign();
+        } else {
+          setIsCampaignRunning(command.action === 'run');
+        }
+        return;
+      case 'recon':
+        if (command.close) {
+          if (!reconImage) throw new CommandError('No visual feed open.');
+          setReconImage(null);
+          return;
+        }
+        if (!warState.aggressor && !warState.defender) throw new CommandError('Select a faction first.');
+        if (isReconLoading) throw new CommandError('Uplink already in progress.');
+        triggerVisualRecon();
+        return;
+      case 'data':
+        if (command.action === 'import') {
+          datasetInputRef.current?.click();
+        } else {
+          if (getDatasetSize() === 0) throw new CommandError('No dataset loaded.');
+          clearDataset();
+        }
+        return;
+      case 'link':
+        if (command.provider === 'config') {
+          setIsProviderPanelOpen(true);
+        } else {
+          applyProviderSettings(command.provider, getProviderSettings(command.provider));
+        }
+        return;
+      case 'scenario':
+        if (command.action === 'list') {
+          addLog(scenarios.length > 0
+            ? ['SAVED SCENARIOS:', ...scenarios.map(s => `${s.name} (${new Date(s.savedAt).toLocaleString()})`)].join('\n')
+            : 'No saved scenarios.', 'INFO');
+        } else if (command.action === 'save') {
+          saveCurrentScenario(command.scenario);
+        } else if (command.action === 'load') {
+          const scenario = findScenario(command.scenario);
+          if (!scenario) throw new CommandError(`No saved scenario named "${command.scenario}".`);
+          loadSavedScenario(scenario);
+        } else {
+          removeScenario(command.scenario);
+        }
+        return;
+      case 'share':
+        shareScenario();
+        return;
+      case 'focus':
+        if (reconImage) throw new CommandError('Close the visual feed first ("recon close").');
+        if (command.country) {
+          globeRef.current?.focusCountry(lookupCountry(command.country));
+        } else {
+          const participants = getParticipants(warState);
+          if (participants.length === 0) throw new CommandError('No factions selected. Use "focus <country>".');
+          globeRef.current?.frameTheatre(participants);
+        }
+        return;
+      case 'borders': {
+        if (!borderGraph) throw new CommandError('Border data not loaded yet.');
+        if (!command.country) {
+          if (!getBelligerents(warState)) throw new CommandError('Select Faction A and Faction B first, or use "borders <country>".');
+          addLog(frontLine
+            ? `LAND FRONT: ${Math.round(frontLine.lengthKm)} km between the blocs. Armor and infantry carry more weight.`
+            : 'NO LAND FRONT: the blocs share no border. Air power and logistics carry more weight.', 'INFO');
+          return;
+        }
+        const country = lookupCountry(command.country);
+        const borders = borderGraph.get(country.id);
+        if (!borders) throw new CommandError(`No border data for ${country.properties.name} (too small for the 110m topology).`);
+        const neighbors = [...borders.neighbors]
+          .sort(([, a], [, b]) => b.lengthKm - a.lengthKm)
+          .map(([id, border]) => `  ${countries.find(c => c.id === id)?.properties.name ?? id} - ${Math.round(border.lengthKm)} km`);
+        addLog([
+          `${country.properties.name.toUpperCase()}: ${borders.coastal ? 'COASTAL' : 'LANDLOCKED'}, ${neighbors.length > 0 ? `${Math.round(borders.borderKm)} km of land border` : 'no land neighbors'}`,
+          ...neighbors
+        ].join('\n'), 'INFO');
+        return;
+      }
+      case 'zone':
+        if (command.action === 'list') {
+          addLog(zones.length > 0
+            ? ['CONFLICT ZONES:', ...zones.map(z => `${z.id} - ${z.name} [${z.threatLevel}, ${z.activeUnits} units]`)].join('\n')
+            : 'No conflict zones. Use "zone add <lat> <lng> [name]".', 'INFO');
+        } else if (command.action === 'close') {
+          if (!selectedZone) throw new CommandError('No zone dossier open.');
+          setSelectedZoneId(null);
+        } else if (command.action === 'add') {
+          addZone(command.coordinates, command.zoneName);
+        } else if (command.action === 'delete') {
+          removeZone(resolveZone(command.zone, zones));
+        } else if (command.action === 'set') {
+          editZone(resolveZone(command.zone, zones), command.edit);
+        } else {
+          const zone = resolveZone(command.zone, zones);
+          if (isSitrepLoading) throw new CommandError('A SITREP is already being received.');
+          if (command.action === 'open') {
+            openZone(zone);
+          } else {
+            requestSitrep(zone);
+          }
+        }
+        return;
+    }
+  };
+
+  // Terminal commands and panel buttons report rejected actions as ERROR logs
+  const withCommandErrors = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      if (!(error instanceof CommandError)) throw error;
+      addLog(error.message, 'ERROR');
+    }
+  };
+
+  const executeCommand = (input: string) => {
+    addLog(`> ${input}`, 'INFO');
+    withCommandErrors(() => runCommand(parseCommand(input)));
+  };
+
   useEffect(() => {
     setTimeout(() => {
       addLog('Welcome back, Commander. Global map loaded.', 'INFO');
@@ -128,7 +895,7 @@ const App: React.FC = () => {
       <div className="perspective-grid"></div>
 
       {/* TOP HEADER */}
-      <header className="z-10 h-16 border-b border-cyan-900/50 bg-slate-900/80 backdrop-blur-md flex items-center justify-between px-6 relative shrink-0">
+      <header className="z-30 h-16 border-b border-cyan-900/50 bg-slate-900/80 backdrop-blur-md flex items-center justify-between px-6 relative shrink-0">
         <div className="flex items-center space-x-4">
           <div className="w-8 h-8 bg-cyan-500 rounded-sm animate-pulse shadow-[0_0_15px_#06b6d4]"></div>
           <div>
@@ -145,7 +912,43 @@ const App: React.FC = () => {
             <span className="block text-slate-500">SYSTEM</span>
             <span className="text-cyan-400">ONLINE</span>
           </div>
+          <button
+            onClick={() => {
+              setIsScenarioPanelOpen(!isScenarioPanelOpen);
+              setIsProviderPanelOpen(false);
+            }}
+            className="text-right hover:bg-cyan-500/10 px-1"
+            title="Save, load and share scenarios"
+          >
+            <span className="block text-slate-500">SCENARIOS</span>
+            <span className="text-cyan-400">{scenarios.length} SAVED</span>
+          </button>
+          <button
+            onClick={() => {
+              setIsProviderPanelOpen(!isProviderPanelOpen);
+              setIsScenarioPanelOpen(false);
+            }}
+            className="text-right hover:bg-cyan-500/10 px-1"
+            title="Configure AI provider"
+          >
+            <span className="block text-slate-500">AI LINK</span>
+            <span className={providerId === 'offline' ? 'text-orange-400' : 'text-cyan-400'}>{PROVIDER_LABELS[providerId]}</span>
+          </button>
         </div>
+        {isProviderPanelOpen && (
+          <ProviderSettings onApply={applyProviderSettings} onClose={() => setIsProviderPanelOpen(false)} />
+        )}
+        {isScenarioPanelOpen && (
+          <ScenarioPanel
+            scenarios={scenarios}
+            canSave={!!(warState.aggressor || warState.defender)}
+            onSave={name => withCommandErrors(() => saveCurrentScenario(name))}
+            onLoad={scenario => withCommandErrors(() => loadSavedScenario(scenario))}
+            onDelete={name => withCommandErrors(() => removeScenario(name))}
+            onShare={() => withCommandErrors(shareScenario)}
+            onClose={() => setIsScenarioPanelOpen(false)}
+          />
+        )}
       </header>
 
       {/* MAIN CONTENT GRID */}
@@ -164,13 +967,29 @@ const App: React.FC = () => {
               <div className={`p-3 border-l-4 transition-all ${
                 warState.aggressor ? 'border-orange-500 bg-orange-950/30' : 'border-slate-700 bg-slate-800/20'
               }`}>
-                <div className="text-[10px] text-slate-400 uppercase flex justify-between">
+                <div className="text-[10px] text-slate-400 uppercase flex justify-between items-center">
                     <span>Faction A (Aggressor)</span>
-                    <span className="text-orange-500 font-bold">HOSTILE</span>
+                    {warState.aggressor ? (
+                        <button 
+                            onClick={() => setAllySelectSide(allySelectSide === 'A' ? null : 'A')}
+                            className={`px-2 py-0.5 text-[9px] border ${allySelectSide === 'A' ? 'bg-orange-500 text-black border-orange-500 animate-pulse' : 'border-orange-500/50 text-orange-500 hover:bg-orange-500/20'}`}
+                        >
+                            {allySelectSide === 'A' ? 'SELECT ALLY...' : '+ CALL ALLY'}
+                        </button>
+                    ) : (
+                        <span className="text-orange-500 font-bold">HOSTILE</span>
+                    )}
                 </div>
                 <div className={`text-xl font-mono font-bold ${warState.aggressor ? 'text-white' : 'text-slate-600'}`}>
                    {warState.aggressor ? warState.aggressor.properties.name : 'SELECT ON MAP'}
                 </div>
+
+                <CoalitionList
+                  allies={warState.aggressorAllies}
+                  commitments={warState.allyCommitment}
+                  onCommitmentChange={setAllyCommitment}
+                  tone="orange"
+                />
               </div>
 
               <div className="flex justify-center text-red-500 font-bold font-mono text-xs">VS</div>
@@ -183,10 +1002,10 @@ const App: React.FC = () => {
                     <span>Faction B (Defender)</span>
                     {warState.defender && (
                         <button 
-                            onClick={() => setIsSelectingAlly(!isSelectingAlly)}
-                            className={`px-2 py-0.5 text-[9px] border ${isSelectingAlly ? 'bg-cyan-500 text-black border-cyan-500 animate-pulse' : 'border-cyan-500/50 text-cyan-500 hover:bg-cyan-500/20'}`}
+                            onClick={() => setAllySelectSide(allySelectSide === 'B' ? null : 'B')}
+                            className={`px-2 py-0.5 text-[9px] border ${allySelectSide === 'B' ? 'bg-cyan-500 text-black border-cyan-500 animate-pulse' : 'border-cyan-500/50 text-cyan-500 hover:bg-cyan-500/20'}`}
                         >
-                            {isSelectingAlly ? 'SELECT ALLY...' : '+ CALL ALLY'}
+                            {allySelectSide === 'B' ? 'SELECT ALLY...' : '+ CALL ALLY'}
                         </button>
                     )}
                 </div>
@@ -194,29 +1013,22 @@ const App: React.FC = () => {
                    {warState.defender ? warState.defender.properties.name : 'SELECT ON MAP'}
                 </div>
 
-                {/* Ally List */}
-                {warState.defenderAllies.length > 0 && (
-                    <div className="mt-2 pt-2 border-t border-cyan-500/30">
-                        <div className="text-[9px] text-cyan-300 mb-1">COALITION FORCES:</div>
-                        <div className="flex flex-wrap gap-1">
-                            {warState.defenderAllies.map(ally => (
-                                <span key={ally.id} className="text-[10px] bg-cyan-500/20 border border-cyan-500/30 px-1 rounded text-cyan-100">
-                                    {ally.properties.name}
-                                </span>
-                            ))}
-                        </div>
-                    </div>
-                )}
+                <CoalitionList
+                  allies={warState.defenderAllies}
+                  commitments={warState.allyCommitment}
+                  onCommitmentChange={setAllyCommitment}
+                  tone="cyan"
+                />
               </div>
            </div>
 
            {/* Quick Actions */}
-           <div className="h-40 bg-slate-900/50 border border-cyan-900/30 p-4 flex flex-col justify-center gap-2 backdrop-blur-sm">
+           <div className="bg-slate-900/50 border border-cyan-900/30 p-4 flex flex-col justify-center gap-2 backdrop-blur-sm">
               <div className="text-[10px] text-slate-500 tracking-widest mb-1">COMMAND ACTIONS</div>
               
               {/* Simulate Button */}
               <button 
-                onClick={triggerWarSimulation}
+                onClick={() => triggerWarSimulation()}
                 disabled={isSimulating || !warState.aggressor || !warState.defender}
                 className="w-full py-3 bg-red-900/30 hover:bg-red-500/20 border border-red-500/50 text-red-300 font-mono text-sm uppercase tracking-wider transition-all hover:shadow-[0_0_15px_rgba(239,68,68,0.4)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 group"
               >
@@ -236,23 +1048,86 @@ const App: React.FC = () => {
                 )}
               </button>
 
+              {/* Monte Carlo Button */}
+              <button
+                onClick={() => triggerMonteCarlo()}
+                disabled={isBatchRunning || !warState.aggressor || !warState.defender}
+                className="w-full py-2 bg-slate-800/50 hover:bg-red-500/10 border border-red-500/30 text-red-300 font-mono text-xs uppercase tracking-wider transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isBatchRunning ? 'RUNNING BATCH...' : `RUN ${MONTE_CARLO_RUNS}x`}
+              </button>
+
+              {/* Campaign Controls */}
+              {campaign ? (
+                <div className="border border-red-500/30 bg-red-950/10 p-2 flex flex-col gap-2">
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <span className="text-red-300">CAMPAIGN // WEEK {campaign.turn}/{campaign.maxTurns}</span>
+                    <span className={campaign.outcome ? 'text-orange-400' : 'text-slate-500'}>
+                      {campaign.outcome ? (campaign.outcome.winner ? `${campaign.outcome.winner.substring(0, 12).toUpperCase()} WINS` : 'STALEMATE') : isCampaignRunning ? 'RUNNING' : 'PAUSED'}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={advanceCampaign}
+                      disabled={isCampaignRunning || !!campaign.outcome}
+                      className="flex-1 py-1 border border-red-500/40 text-red-300 font-mono text-[10px] hover:bg-red-500/20 disabled:opacity-40"
+                    >
+                      STEP
+                    </button>
+                    <button
+                      onClick={() => setIsCampaignRunning(!isCampaignRunning)}
+                      disabled={!!campaign.outcome}
+                      className="flex-1 py-1 border border-red-500/40 text-red-300 font-mono text-[10px] hover:bg-red-500/20 disabled:opacity-40"
+                    >
+                      {isCampaignRunning ? 'STOP' : 'RUN'}
+                    </button>
+                    <button
+                      onClick={endCampaign}
+                      className="flex-1 py-1 border border-slate-600 text-slate-400 font-mono text-[10px] hover:bg-slate-700/40"
+                    >
+                      {campaign.outcome ? 'CLOSE' : 'END'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => startCampaign()}
+                  disabled={isSimulating || !warState.aggressor || !warState.defender}
+                  className="w-full py-2 bg-red-950/20 hover:bg-red-500/10 border border-red-500/30 text-red-300 font-mono text-xs uppercase tracking-wider transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  START CAMPAIGN (WEEKLY TURNS)
+                </button>
+              )}
+
               {/* Visual Recon Button */}
               <button 
                 onClick={triggerVisualRecon}
-                disabled={isReconLoading || !warState.aggressor}
+                disabled={isReconLoading || !(warState.aggressor || warState.defender)}
                 className="w-full py-2 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500 text-cyan-300 font-mono text-xs uppercase tracking-wider transition-all disabled:opacity-50"
               >
                  {isReconLoading ? 'UPLINKING...' : 'GENERATE BATTLE VISUAL'}
               </button>
            </div>
            
-           <div className="flex-1 bg-black/40 border border-slate-800 p-2 text-[10px] font-mono text-slate-500 overflow-y-auto backdrop-blur-md">
+           <CountrySearch
+             countries={countries}
+             warState={warState}
+             onAssign={(side, country) => withCommandErrors(() => assignFaction(side, country))}
+             onAddAlly={(side, country) => withCommandErrors(() => addAlly(side, country))}
+             onHover={setHoveredCountry}
+             onFocus={country => globeRef.current?.focusCountry(country)}
+           />
+
+           <div className="max-h-32 shrink-0 bg-black/40 border border-slate-800 p-2 text-[10px] font-mono text-slate-500 overflow-y-auto backdrop-blur-md">
              <p className="mb-2 text-cyan-600">INSTRUCTIONS:</p>
              <ol className="list-decimal pl-4 space-y-1">
-               <li>Click country for Aggressor (A).</li>
+               <li>Drag or use arrow keys to rotate; wheel, pinch or +/- to zoom. Enter selects under the crosshair.</li>
+               <li>Click country for Aggressor (A), or use the COUNTRY INDEX search.</li>
                <li>Click country for Defender (B).</li>
-               <li className="text-cyan-400">Optional: Click "+ CALL ALLY" to add coalition forces for B.</li>
-               <li>Click SIMULATE WAR.</li>
+               <li className="text-cyan-400">Optional: Click "+ CALL ALLY" on either faction to add coalition forces, then set each ally's commitment.</li>
+               <li>Click SIMULATE WAR, or START CAMPAIGN to fight it out week by week.</li>
+               <li>Click a pulsing zone marker for its dossier and an AI SITREP. "+ NEW ZONE" drops your own; threat levels rise with nearby wars.</li>
+               <li className="text-cyan-400">Everything above can also be typed in the terminal. Type "help" for the command list; TAB completes country names.</li>
              </ol>
            </div>
         </aside>
@@ -260,10 +1135,18 @@ const App: React.FC = () => {
         {/* CENTER COLUMN: Globe Visualization */}
         <section className="flex-1 bg-slate-900/30 border border-cyan-900/20 relative flex flex-col rounded-lg overflow-hidden group backdrop-blur-sm shadow-[0_0_50px_rgba(0,0,0,0.5)]">
            {/* Decorative UI elements on top of globe */}
-           <div className="absolute top-4 left-4 z-20 pointer-events-none">
+           <div className="absolute top-4 left-4 z-20 flex gap-2 pointer-events-none">
              <div className="text-[10px] text-cyan-500 font-mono tracking-widest border border-cyan-500/30 px-2 py-1 bg-black/50">
                 LIVE FEED // GEO-SPATIAL
              </div>
+             {!reconImage && (
+               <button
+                 onClick={() => setIsPlacingZone(placing => !placing)}
+                 className={`pointer-events-auto text-[10px] font-mono tracking-widest border px-2 py-1 ${isPlacingZone ? 'bg-red-500 text-black border-red-500 animate-pulse' : 'border-red-500/40 text-red-400 bg-black/50 hover:bg-red-500/20'}`}
+               >
+                 {isPlacingZone ? 'CANCEL PLACEMENT' : '+ NEW ZONE'}
+               </button>
+             )}
            </div>
            
            <div className="absolute inset-0">
@@ -284,13 +1167,36 @@ const App: React.FC = () => {
                 </div>
              ) : (
                 <HoloGlobe 
+                  ref={globeRef}
                   warState={warState}
+                  highlightedCountryId={hoveredCountry?.id ?? null}
+                  frontLine={frontLine?.geometry ?? null}
+                  replayWeek={replayWeek}
                   onCountrySelect={handleCountrySelect}
-                  isSimulating={isSimulating}
+                  isSimulating={isSimulating || (!!campaign && !campaign.outcome)}
+                  victorId={lastReport ? (lastReport.winningSide === 'A' ? warState.aggressor?.id : warState.defender?.id) ?? null : null}
+                  onCountriesLoaded={handleCountriesLoaded}
+                  zones={zones}
+                  selectedZoneId={selectedZoneId}
+                  onZoneSelect={openZone}
+                  onLocationPick={isPlacingZone ? addZone : null}
                 />
              )}
            </div>
 
+           {/* Zone Dossier */}
+           {selectedZone && !reconImage && (
+             <ZoneDossier
+               key={selectedZone.id}
+               zone={selectedZone}
+               isSitrepLoading={isSitrepLoading}
+               onRequestSitrep={() => requestSitrep(selectedZone)}
+               onEdit={edit => withCommandErrors(() => editZone(selectedZone, edit))}
+               onDelete={() => removeZone(selectedZone)}
+               onClose={() => setSelectedZoneId(null)}
+             />
+           )}
+
            {/* Loading Overlay */}
            {isReconLoading && (
               <div className="absolute inset-0 z-40 bg-black/80 flex items-center justify-center backdrop-blur-sm">
@@ -304,8 +1210,10 @@ const App: React.FC = () => {
            {/* Bottom Overlay Info */}
            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-6 pointer-events-none z-20">
               <div className="text-center text-slate-500 font-mono text-xs">
-                 {isSelectingAlly ? (
-                    <span className="text-cyan-400 animate-pulse font-bold">SELECT ALLY NATION ON MAP...</span>
+                 {isPlacingZone ? (
+                    <span className="text-red-400 animate-pulse font-bold">CLICK THE GLOBE TO DROP A CONFLICT ZONE...</span>
+                 ) : allySelectSide ? (
+                    <span className={`${allySelectSide === 'A' ? 'text-orange-400' : 'text-cyan-400'} animate-pulse font-bold`}>SELECT FACTION {allySelectSide} ALLY NATION ON MAP...</span>
                  ) : warState.aggressor ? (
                   <span>
                     TARGET LOCKED: <span className="text-orange-400">{warState.aggressor.properties.name}</span>
@@ -321,25 +1229,56 @@ const App: React.FC = () => {
         <aside className="w-1/4 flex flex-col gap-4 min-w-[300px]">
            {/* Stats Panel (Only visible if something selected) */}
            <div className="flex-1 bg-slate-900/50 border border-cyan-900/30 p-4 flex flex-col relative backdrop-blur-sm">
-              <div className="text-cyan-400 font-bold text-xs tracking-widest mb-4 flex justify-between">
+              <div className="text-cyan-400 font-bold text-xs tracking-widest mb-4 flex justify-between items-center">
                 <span>WAR ASSETS</span>
-                <span className="text-[10px] opacity-50">#SYS-OVR</span>
+                <div className="flex items-center gap-2">
+                  {getDatasetSize() > 0 && (
+                    <button
+                      onClick={clearDataset}
+                      className="text-[9px] font-mono px-1 border border-orange-500/40 text-orange-400 hover:bg-orange-500/20"
+                      title="Unload dataset"
+                    >
+                      DATA: {getDatasetSize()} [X]
+                    </button>
+                  )}
+                  <button
+                    onClick={() => datasetInputRef.current?.click()}
+                    className="text-[9px] font-mono px-1 border border-cyan-500/40 text-cyan-400 hover:bg-cyan-500/20"
+                  >
+                    IMPORT DATA
+                  </button>
+                  <input
+                    ref={datasetInputRef}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    className="hidden"
+                    onChange={handleDatasetImport}
+                  />
+                  <span className="text-[10px] opacity-50">#SYS-OVR</span>
+                </div>
               </div>
               
               <div className="flex-1 flex flex-col">
                  <div className="flex-1 min-h-[150px]">
                    <TacticalRadar warState={warState} />
                  </div>
-                 <WarStats warState={warState} />
+                 <WarStats warState={warState} report={lastReport} terrain={terrain} />
+                 <OutcomeDistribution summary={batchSummary} isRunning={isBatchRunning} />
                  <div className="flex-1 min-h-[120px]">
-                   <IntensityChart />
+                   <BattleTimeline
+                     timeline={timeline}
+                     cursorTurn={replayTurn}
+                     isReplaying={isReplaying}
+                     onCursorChange={setReplayTurn}
+                     onReplayToggle={toggleReplay}
+                   />
                  </div>
               </div>
            </div>
 
            {/* Terminal */}
            <div className="h-1/3 min-h-[250px] shadow-[0_0_20px_rgba(0,0,0,0.5)]">
-             <CommandTerminal logs={logs} />
+             <CommandTerminal logs={logs} liveLog={liveLog} onCommand={executeCommand} countries={countries} />
            </div>
         </aside>
 
@@ -1,63 +1,373 @@
-import React, { useEffect, useRef } from 'react';
-import { SystemLog } from '../types';
+import React, { createContext, useCallback, useContext, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { SystemLog, SimulationReport, CountryFeature } from '../types';
+import { formatSeed } from '../services/simulationEngine';
+import { formatCasualties, formatLogisticsEntry } from '../services/simulationReport';
+import { completeCommand } from '../services/terminalCommands';
+import { exportLogs, LogExportFormat, matchesLogSearch } from '../services/logExport';
 
 interface CommandTerminalProps {
   logs: SystemLog[];
+  liveLog?: SystemLog | null; // Entry still streaming in from the AI link
+  onCommand: (input: string) => void;
+  countries: CountryFeature[]; // Tab-completion source
 }
 
-const CommandTerminal: React.FC<CommandTerminalProps> = ({ logs }) => {
+const MAX_HISTORY = 50;
+const MAX_COMPLETION_OPTIONS = 8;
+
+const LOG_TYPES: SystemLog['type'][] = ['INFO', 'WARNING', 'ERROR', 'AI', 'COMBAT'];
+const EXPORT_FORMATS: [LogExportFormat, string][] = [['json', 'JSON'], ['text', 'TXT'], ['markdown', 'MD']];
+
+// Virtualization: rows are positioned from measured heights; unmeasured rows use the estimate
+const ESTIMATED_ROW_HEIGHT = 48;
+const OVERSCAN_PX = 400;
+const PIN_THRESHOLD_PX = 24; // Within this distance of the bottom, new entries keep the view pinned
+
+// --- SEARCH HIGHLIGHTING ---
+
+const SearchQueryContext = createContext('');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Highlight: React.FC<{ text: string }> = ({ text }) => {
+  const query = useContext(SearchQueryContext).trim();
+  if (!query) return <>{text}</>;
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-yellow-400/80 text-black px-0.5">{part}</mark>
+        : part)}
+    </>
+  );
+};
+
+// Structured rendering of a simulation report (COMBAT logs carrying a report payload)
+const ReportView: React.FC<{ report: SimulationReport }> = ({ report }) => {
+  const winnerIsA = report.winningSide === 'A';
+  return (
+    <div className="border-l-2 border-red-500/50 pl-2 my-1 bg-red-900/10 p-2 text-xs space-y-2">
+      <div className="flex justify-between text-[10px] tracking-wider">
+        <span className="text-red-300 font-bold">SIMULATION REPORT // {report.source === 'AI' ? 'AI LINK' : 'OFFLINE PROTOCOL'}</span>
+        {report.source === 'PROCEDURAL' && <span className="text-slate-500">SEED {formatSeed(report.seed)}</span>}
+      </div>
+      <div className="text-slate-300">
+        <span className={winnerIsA ? 'text-yellow-300 font-bold' : 'text-cyan-300'}><Highlight text={report.aggressor} /></span>
+        {report.aggressorAllies.length > 0 && <span className="text-slate-500"> (+ <Highlight text={report.aggressorAllies.join(', ')} />)</span>}
+        <span className="text-red-500 font-bold"> VS </span>
+        <span className={!winnerIsA ? 'text-yellow-300 font-bold' : 'text-orange-300'}><Highlight text={report.defender} /></span>
+        {report.defenderAllies.length > 0 && <span className="text-slate-500"> (+ <Highlight text={report.defenderAllies.join(', ')} />)</span>}
+      </div>
+      <div className="text-[10px] text-red-300 uppercase tracking-wider"><Highlight text={report.battleType} /></div>
+      {report.narrative.map((paragraph, i) => (
+        <p key={i} className="text-slate-300 leading-relaxed"><Highlight text={paragraph} /></p>
+      ))}
+      {report.externalEvents.length > 0 && (
+        <div>
+          <div className="text-[10px] text-slate-500">EXTERNAL INFLUENCE:</div>
+          {report.externalEvents.map((event, i) => <div key={i} className="text-orange-200">- <Highlight text={event} /></div>)}
+        </div>
+      )}
+      <div>
+        <div className="text-[10px] text-slate-500">TURNING POINT:</div>
+        <div className="text-cyan-100"><Highlight text={report.turningPoint} /></div>
+      </div>
+      <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 border-t border-red-500/20 pt-1 text-[10px]">
+        <span className="text-slate-500">VICTORY</span>
+        <span className="text-yellow-300 font-bold">{report.winner}</span>
+        <span className="text-slate-500">CONFIDENCE</span>
+        <span className="text-slate-200">{report.confidence}%</span>
+        <span className="text-slate-500">CASUALTIES</span>
+        <span className="text-slate-200">{formatCasualties(report.casualties.aggressor)} / {formatCasualties(report.casualties.defender)}</span>
+        {report.durationWeeks !== null && (
+          <>
+            <span className="text-slate-500">EST. DURATION</span>
+            <span className="text-slate-200">{report.durationWeeks} weeks</span>
+          </>
+        )}
+        {report.logistics && report.logistics.length > 0 && (
+          <>
+            <span className="text-slate-500">LOGISTICS</span>
+            <span className="text-slate-200">{report.logistics.map(formatLogisticsEntry).join(' / ')}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LogEntry: React.FC<{ log: SystemLog; isLive?: boolean; animate?: boolean }> = ({ log, isLive, animate }) => {
+  const tail = (
+    <>
+      {isLive && <span className="inline-block w-2 h-3 ml-0.5 align-middle bg-cyan-400 animate-pulse" />}
+      {log.truncated && <span className="block mt-1 text-[10px] text-orange-500 tracking-wider">[TRANSMISSION TRUNCATED - LINK LOST]</span>}
+    </>
+  );
+
+  return (
+    <div className={`border-l-2 border-slate-700 pl-3 py-1 ${animate ? 'animate-in fade-in slide-in-from-left-2 duration-300' : ''}`}>
+      <div className="flex items-center space-x-2 text-xs opacity-60 mb-0.5">
+        <span className="text-cyan-300">{log.timestamp}</span>
+        <span className={`uppercase font-bold tracking-wider ${
+          log.type === 'ERROR' || log.type === 'WARNING' ? 'text-orange-500' : 'text-slate-400'
+        }`}>
+          [{log.type}]
+        </span>
+        {isLive && <span className="text-cyan-500 tracking-wider">RECEIVING...</span>}
+      </div>
+      <div className={`whitespace-pre-line ${
+        log.type === 'AI' ? 'text-cyan-100' : 
+        log.type === 'WARNING' ? 'text-orange-300' : 
+        'text-slate-300'
+      }`}>
+        {log.report ? (
+          <ReportView report={log.report} />
+        ) : log.type === 'AI' || (log.type === 'COMBAT' && (isLive || log.truncated)) ? (
+          <span className="whitespace-pre-line leading-relaxed border-l-2 border-cyan-500/50 pl-2 block my-1 shadow-[0_0_15px_rgba(6,182,212,0.1)] bg-cyan-900/10 p-2">
+             <Highlight text={log.message} />
+             {tail}
+          </span>
+        ) : (
+          <>
+            <Highlight text={log.message} />
+            {tail}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Row wrapper that reports its rendered height back to the list
+const MeasuredRow: React.FC<{
+  id: string;
+  top: number;
+  onResize: (id: string, height: number) => void;
+  children: React.ReactNode;
+}> = ({ id, top, onResize, children }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row) return;
+    onResize(id, row.offsetHeight);
+    const observer = new ResizeObserver(() => onResize(id, row.offsetHeight));
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [id, onResize]);
+
+  return <div ref={rowRef} className="absolute left-0 right-0 pb-2" style={{ top }}>{children}</div>;
+};
+
+// Index of the row containing vertical position y (offsets has one more entry than rows)
+const findRowAt = (offsets: number[], y: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= y) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+};
+
+const downloadLogs = (logs: SystemLog[], format: LogExportFormat) => {
+  const { content, mimeType, extension } = exportLogs(logs, format);
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `aegis-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const CommandTerminal: React.FC<CommandTerminalProps> = ({ logs, liveLog, onCommand, countries }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null); // null = editing a new line
+  const [completionOptions, setCompletionOptions] = useState<string[]>([]);
+
+  // Filters
+  const [hiddenTypes, setHiddenTypes] = useState<SystemLog['type'][]>([]);
+  const [query, setQuery] = useState('');
+
+  // Virtualization state
+  const rowHeightsRef = useRef(new Map<string, number>());
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const isPinnedRef = useRef(true);
+
+  const visibleLogs = useMemo(
+    () => logs.filter(log => !hiddenTypes.includes(log.type) && matchesLogSearch(log, query)),
+    [logs, hiddenTypes, query]
+  );
 
+  // Top of each row plus the total height; layoutVersion bumps when a row is (re)measured
+  const offsets = useMemo(() => {
+    const result = [0];
+    visibleLogs.forEach(log => result.push(result[result.length - 1] + (rowHeightsRef.current.get(log.id) ?? ESTIMATED_ROW_HEIGHT)));
+    return result;
+  }, [visibleLogs, layoutVersion]);
+
+  const handleRowResize = useCallback((id: string, height: number) => {
+    if (rowHeightsRef.current.get(id) === height) return;
+    rowHeightsRef.current.set(id, height);
+    setLayoutVersion(v => v + 1);
+  }, []);
+
+  // Forget heights of entries that are gone (cleared or trimmed)
   useEffect(() => {
-    if (scrollContainerRef.current) {
-      // Use scrollTo on the container instead of scrollIntoView on an element
-      // to prevents the main window from scrolling.
-      const { scrollHeight } = scrollContainerRef.current;
-      scrollContainerRef.current.scrollTo({
-        top: scrollHeight,
-        behavior: 'smooth'
-      });
-    }
+    const heights = rowHeightsRef.current;
+    if (heights.size <= logs.length) return;
+    const ids = new Set(logs.map(log => log.id));
+    heights.forEach((_, id) => { if (!ids.has(id)) heights.delete(id); });
   }, [logs]);
 
+  const updateViewport = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    isPinnedRef.current = scrollHeight - scrollTop - clientHeight < PIN_THRESHOLD_PX;
+    setViewport({ scrollTop, height: clientHeight });
+  };
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Stay at the bottom while pinned. Direct scrollTop instead of scrollIntoView
+  // so the main window never scrolls.
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && isPinnedRef.current) container.scrollTop = container.scrollHeight;
+  }, [offsets, liveLog]);
+
+  const totalHeight = offsets[offsets.length - 1];
+  const firstRow = visibleLogs.length > 0 ? findRowAt(offsets, viewport.scrollTop - OVERSCAN_PX) : 0;
+  const lastRow = visibleLogs.length > 0 ? findRowAt(offsets, viewport.scrollTop + viewport.height + OVERSCAN_PX) : -1;
+  const newestId = logs[logs.length - 1]?.id;
+
+  const toggleType = (type: SystemLog['type']) => {
+    setHiddenTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      const line = input.trim();
+      if (!line) return;
+      setHistory(prev => [...prev.filter(h => h !== line), line].slice(-MAX_HISTORY));
+      setHistoryIndex(null);
+      setInput('');
+      setCompletionOptions([]);
+      onCommand(line);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const completion = completeCommand(input, countries);
+      setInput(completion.input);
+      setCompletionOptions(completion.options);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      if (history.length === 0) return;
+      e.preventDefault();
+      const current = historyIndex ?? history.length;
+      const next = e.key === 'ArrowUp' ? Math.max(0, current - 1) : current + 1;
+      if (next >= history.length) {
+        setHistoryIndex(null);
+        setInput('');
+      } else {
+        setHistoryIndex(next);
+        setInput(history[next]);
+      }
+    } else if (e.key === 'Escape') {
+      setInput('');
+      setCompletionOptions([]);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col font-mono text-sm bg-slate-900/80 backdrop-blur-sm border border-cyan-900/50 relative overflow-hidden group">
        {/* Decorative Header */}
        <div className="bg-cyan-950/30 px-3 py-1 border-b border-cyan-900/50 flex justify-between items-center shrink-0">
          <span className="text-cyan-400 font-bold tracking-wider">SYSTEM.LOG</span>
-         <div className="flex space-x-1">
+         <div className="flex items-center space-x-1">
+           {EXPORT_FORMATS.map(([format, label]) => (
+             <button
+               key={format}
+               onClick={() => downloadLogs(visibleLogs, format)}
+               disabled={visibleLogs.length === 0}
+               className="px-1 text-[9px] border border-cyan-900/60 text-cyan-500 hover:bg-cyan-500/20 disabled:opacity-40"
+               title={`Export ${visibleLogs.length} shown entries as ${label}`}
+             >
+               {label}
+             </button>
+           ))}
            <div className="w-2 h-2 bg-cyan-500 rounded-full animate-pulse"></div>
            <div className="w-2 h-2 bg-orange-500 rounded-full opacity-50"></div>
          </div>
        </div>
 
+       {/* Filters */}
+       <div className="shrink-0 flex items-center gap-1 px-3 py-1 border-b border-cyan-900/30 bg-black/20 text-[9px] relative z-20">
+         {LOG_TYPES.map(type => (
+           <button
+             key={type}
+             onClick={() => toggleType(type)}
+             className={`px-1 border ${hiddenTypes.includes(type) ? 'border-slate-700 text-slate-600 line-through' : 'border-cyan-700/60 text-cyan-300 bg-cyan-900/20'}`}
+           >
+             {type}
+           </button>
+         ))}
+         <input
+           value={query}
+           onChange={e => setQuery(e.target.value)}
+           placeholder="SEARCH"
+           spellCheck={false}
+           className="flex-1 min-w-0 ml-1 bg-black/40 border border-cyan-900/50 px-1 text-cyan-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+         />
+         <span className="text-slate-500 whitespace-nowrap">{visibleLogs.length}/{logs.length}</span>
+       </div>
+
        {/* Content */}
-       <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-4 space-y-2">
-         {logs.map((log) => (
-           <div key={log.id} className="border-l-2 border-slate-700 pl-3 py-1 animate-in fade-in slide-in-from-left-2 duration-300">
-             <div className="flex items-center space-x-2 text-xs opacity-60 mb-0.5">
-               <span className="text-cyan-300">{log.timestamp}</span>
-               <span className={`uppercase font-bold tracking-wider ${
-                 log.type === 'ERROR' || log.type === 'WARNING' ? 'text-orange-500' : 'text-slate-400'
-               }`}>
-                 [{log.type}]
-               </span>
-             </div>
-             <div className={`${
-               log.type === 'AI' ? 'text-cyan-100' : 
-               log.type === 'WARNING' ? 'text-orange-300' : 
-               'text-slate-300'
-             }`}>
-               {log.type === 'AI' ? (
-                 <span className="whitespace-pre-line leading-relaxed border-l-2 border-cyan-500/50 pl-2 block my-1 shadow-[0_0_15px_rgba(6,182,212,0.1)] bg-cyan-900/10 p-2">
-                    {log.message}
-                 </span>
-               ) : (
-                 log.message
-               )}
-             </div>
+       <SearchQueryContext.Provider value={query}>
+         <div ref={scrollContainerRef} onScroll={updateViewport} className="flex-1 overflow-y-auto px-4 pt-4 pb-2">
+           <div className="relative" style={{ height: totalHeight }}>
+             {visibleLogs.slice(firstRow, lastRow + 1).map((log, i) => (
+               <MeasuredRow key={log.id} id={log.id} top={offsets[firstRow + i]} onResize={handleRowResize}>
+                 <LogEntry log={log} animate={log.id === newestId} />
+               </MeasuredRow>
+             ))}
            </div>
-         ))}
+           {liveLog && !hiddenTypes.includes(liveLog.type) && <LogEntry key={liveLog.id} log={liveLog} isLive />}
+         </div>
+       </SearchQueryContext.Provider>
+
+       {/* Command Prompt */}
+       <div className="shrink-0 border-t border-cyan-900/50 bg-black/30 px-3 py-1.5 relative z-20">
+         {completionOptions.length > 0 && (
+           <div className="text-[10px] text-slate-500 mb-1 truncate">
+             {completionOptions.slice(0, MAX_COMPLETION_OPTIONS).join('  ')}
+             {completionOptions.length > MAX_COMPLETION_OPTIONS && `  (+${completionOptions.length - MAX_COMPLETION_OPTIONS})`}
+           </div>
+         )}
+         <div className="flex items-center gap-2 text-xs">
+           <span className="text-cyan-500 font-bold">&gt;</span>
+           <input
+             value={input}
+             onChange={e => {
+               setInput(e.target.value);
+               setCompletionOptions([]);
+             }}
+             onKeyDown={handleKeyDown}
+             placeholder='Type "help" for commands'
+             spellCheck={false}
+             autoComplete="off"
+             className="flex-1 bg-transparent text-cyan-100 placeholder-slate-600 focus:outline-none"
+           />
+         </div>
        </div>
 
        {/* Scanline overlay specific to terminal */}
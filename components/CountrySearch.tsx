@@ -0,0 +1,79 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { CountryFeature, FactionSide, WarState } from '../types';
+import { getCountryStats, getCountryStatsRevision, getPowerScore, subscribeCountryStats } from '../services/countryStats';
+import { searchCountries } from '../services/countrySearch';
+import { getCountryRole } from '../services/simulationEngine';
+import { COUNTRY_ROLE_STYLES } from '../constants';
+
+interface CountrySearchProps {
+  countries: CountryFeature[];
+  warState: WarState;
+  onAssign: (side: FactionSide, country: CountryFeature) => void;
+  onAddAlly: (side: FactionSide, country: CountryFeature) => void;
+  onHover: (country: CountryFeature | null) => void; // Highlights the country on the globe
+  onFocus: (country: CountryFeature) => void;        // Turns the globe to the country
+}
+
+// Name with the fuzzy-matched characters emphasized
+const MatchedName: React.FC<{ name: string; indices: number[] }> = ({ name, indices }) => {
+  const matched = new Set(indices);
+  return <>{[...name].map((char, i) => matched.has(i) ? <span key={i} className="text-cyan-300">{char}</span> : char)}</>;
+};
+
+const assignButton = 'px-1 border text-[9px] disabled:opacity-30 disabled:cursor-not-allowed';
+
+// Searchable country list: assign factions and allies without hunting for polygons on the globe
+const CountrySearch: React.FC<CountrySearchProps> = ({ countries, warState, onAssign, onAddAlly, onHover, onFocus }) => {
+  const [query, setQuery] = useState('');
+  useSyncExternalStore(subscribeCountryStats, getCountryStatsRevision); // Re-render on dataset import
+  const matches = useMemo(() => searchCountries(query, countries), [query, countries]);
+
+  return (
+    <div className="flex-1 min-h-[180px] bg-slate-900/50 border border-cyan-900/30 p-3 flex flex-col gap-2 backdrop-blur-sm font-mono">
+      <div className="flex justify-between items-center text-[10px] tracking-widest">
+        <span className="text-slate-500">COUNTRY INDEX</span>
+        <span className="text-slate-600">{countries.length > 0 ? `${matches.length}/${countries.length}` : 'LOADING...'}</span>
+      </div>
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Escape') setQuery(''); }}
+        placeholder="SEARCH COUNTRIES..."
+        spellCheck={false}
+        className="w-full bg-black/60 border border-cyan-900/60 px-2 py-1 text-xs text-cyan-100 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500"
+      />
+      <div className="flex-1 min-h-0 overflow-y-auto" onMouseLeave={() => onHover(null)}>
+        {matches.map(({ country, indices }) => {
+          const stats = getCountryStats(country);
+          const role = getCountryRole(warState, country);
+          return (
+            <div
+              key={country.id}
+              onMouseEnter={() => onHover(country)}
+              className="flex items-center gap-2 px-1 py-0.5 text-[10px] hover:bg-cyan-500/10 group"
+            >
+              <button onClick={() => onFocus(country)} className="flex-1 min-w-0 text-left" title="Show on globe">
+                <div className="truncate text-slate-200"><MatchedName name={country.properties.name} indices={indices} /></div>
+                <div className="text-[9px] text-slate-500">
+                  PWR {Math.round(getPowerScore(stats))} · TECH {stats.techLevel} · {(stats.manpower / 1000).toFixed(0)}K
+                </div>
+              </button>
+              {role ? (
+                <span className="text-[9px]" style={{ color: COUNTRY_ROLE_STYLES[role].color }}>{COUNTRY_ROLE_STYLES[role].label}</span>
+              ) : (
+                <div className="flex gap-0.5">
+                  <button onClick={() => onAssign('A', country)} className={`${assignButton} border-orange-500/50 text-orange-400 hover:bg-orange-500/20`} title="Assign as Faction A (aggressor)">A</button>
+                  <button onClick={() => onAssign('B', country)} className={`${assignButton} border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/20`} title="Assign as Faction B (defender)">B</button>
+                  <button onClick={() => onAddAlly('A', country)} disabled={!warState.aggressor} className={`${assignButton} border-red-500/50 text-red-400 hover:bg-red-500/20`} title="Add to Faction A coalition">+A</button>
+                  <button onClick={() => onAddAlly('B', country)} disabled={!warState.defender} className={`${assignButton} border-blue-500/50 text-blue-400 hover:bg-blue-500/20`} title="Add to Faction B coalition">+B</button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CountrySearch;
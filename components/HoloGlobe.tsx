@@ -1,12 +1,31 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useImperativeHandle, useRef, useState, useSyncExternalStore } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
-import { CountryFeature, WarState } from '../types';
+import { CombatStat, ConflictZone, Coordinates, CountryFeature, CountryRole, GlobeCamera, MapProjection, RenderQuality, ThreatLevel, TimelinePoint, WarState } from '../types';
+import { COUNTRY_ROLE_STYLES, THREAT_LEVEL_COLORS } from '../constants';
+import { loadCountries, resolveResolution, ResolutionSetting, TopologyResolution } from '../services/worldTopology';
+import { CameraView, getBoundingCircle, getRotationFor, getViewDistance, interpolateView } from '../services/globeCamera';
+import { getCountryIndex } from '../services/countryIndex';
+import { createViewProjection, getFitScale, MAP_PROJECTION_LABELS, ProjectedView } from '../services/mapProjections';
+import { getCountryRole } from '../services/simulationEngine';
+import { getCentroid } from '../services/powerProjection';
+import { FrontLine } from '../services/borderGraph';
+import { getCountryStats, getCountryStatsRevision, getPowerScore, subscribeCountryStats } from '../services/countryStats';
+import { loadRenderQuality, QUALITY_PROFILES, QualityProfile, RENDER_QUALITY_OPTIONS, saveRenderQuality } from '../services/renderQuality';
 
 interface HoloGlobeProps {
   warState: WarState;
   onCountrySelect: (country: CountryFeature) => void;
   isSimulating: boolean;
+  victorId?: string | number | null; // Winner of the last simulation, outlined on the globe
+  onCountriesLoaded?: (countries: CountryFeature[]) => void;
+  zones?: ConflictZone[];
+  selectedZoneId?: string | null;
+  onZoneSelect?: (zone: ConflictZone) => void;
+  onLocationPick?: ((coordinates: Coordinates) => void) | null; // When set, clicks pick a coordinate instead of selecting
+  highlightedCountryId?: string | number | null; // Outlined, e.g. while hovered in the country index
+  frontLine?: FrontLine['geometry'] | null; // GeoJSON MultiLineString of the land border between the blocs
+  replayWeek?: TimelinePoint | null; // Week under the battle timeline cursor: the war plays at its intensity
+  ref?: React.Ref<GlobeCamera>;
 }
 
 // Particle System Types
@@ -29,27 +48,232 @@ interface Missile {
   pathIndex: number; // Which conflict path this missile belongs to
 }
 
+const RESOLUTION_OPTIONS: ResolutionSetting[] = ['auto', '110m', '50m'];
+const PROJECTION_OPTIONS: MapProjection[] = ['globe', 'equal-earth', 'mercator'];
+const PROJECTION_TRANSITION_MS = 1000;
+const MAX_TRAIL_JUMP_PX = 40; // Longer trail segments wrapped around a flat map's edge
+const MISSILE_POOL_SIZE = Math.max(...RENDER_QUALITY_OPTIONS.map(quality => QUALITY_PROFILES[quality].missiles));
+const PARTICLE_POOL_SIZE = Math.max(...RENDER_QUALITY_OPTIONS.map(quality => QUALITY_PROFILES[quality].maxParticles));
+const FPS_SAMPLE_MS = 500;
+
+// Projection morph in progress (or finished): from -> to, started at `start`
+interface ProjectionTransition {
+  from: MapProjection;
+  to: MapProjection;
+  start: number;
+}
+
+// Navigation: zoom multiplies the projection's fitted scale; zoom velocity is in log-zoom per frame
+const MIN_ZOOM = 0.75;
+const MAX_ZOOM = 8;
+const ZOOM_FRICTION = 0.85;
+const WHEEL_ZOOM_SPEED = 0.0006;
+const KEY_ZOOM_IMPULSE = 0.04;
+const KEY_ROTATE_SPEED = 3; // Degrees per frame at zoom 1
+const CLICK_TOLERANCE_PX = 15; // A press that moves further is a drag, not a click
+const SCALE_REPORT_STEP = 0.1; // Relative scale change before the parent hears about it (auto map detail)
+
+// Tilt is limited to keep the globe upright, but zooming in must still reach the high latitudes
+const getMaxTilt = (zoom: number) => Math.min(85, 45 + (zoom - 1) * 20);
+
+// Camera flights: duration grows with the angle travelled and the zoom change
+const CAMERA_BASE_MS = 500;
+const CAMERA_MS_PER_DEGREE = 4;
+const CAMERA_MS_PER_ZOOM_STEP = 300; // Per e-fold of zoom
+const CAMERA_MAX_MS = 1800;
+const FRAME_FILL = 0.8;    // Share of the viewport height a framed theatre spans
+const MAX_FRAME_ZOOM = 4;  // Small countries are framed, not magnified to street level
+
+interface CameraFlight {
+  from: CameraView;
+  to: CameraView;
+  start: number;
+  duration: number;
+}
+
+// Zoom at which a circle of the given angular radius spans FRAME_FILL of the viewport.
+// Its projected radius is about scale * sin(radius) on the globe and scale * radius on a flat map.
+const getFitZoom = (radius: number, projection: MapProjection, width: number, height: number) => {
+  const r = Math.max(0.01, Math.min(Math.PI / 2, radius));
+  const extent = getFitScale(projection, width, height) * (projection === 'globe' ? Math.sin(r) : r);
+  return Math.max(MIN_ZOOM, Math.min(MAX_FRAME_ZOOM, FRAME_FILL * Math.min(width, height) / 2 / extent));
+};
+
+// Zone markers: size grows with deployed units, pulse rate with threat
+const getZoneMarkerRadius = (zone: ConflictZone) => Math.min(14, 4 + Math.sqrt(zone.activeUnits) / 8);
+const THREAT_PULSE_HZ: Record<ThreatLevel, number> = {
+  [ThreatLevel.LOW]: 0.4,
+  [ThreatLevel.MODERATE]: 0.6,
+  [ThreatLevel.HIGH]: 0.9,
+  [ThreatLevel.CRITICAL]: 1.4
+};
+
+interface ZoneMarker {
+  zone: ConflictZone;
+  x: number;
+  y: number;
+  radius: number;
+}
+
 interface ConflictPath {
   start: [number, number]; // [lng, lat]
   end: [number, number];   // [lng, lat]
   color: string;
-  type: 'AGGRESSION' | 'COUNTER_ATTACK';
+  lineColor: string;  // Dashed trajectory
+  trailColor: string; // Afterburner trail
+  type: 'AGGRESSION' | 'ALLIED_ASSAULT' | 'COUNTER_ATTACK';
 }
 
-const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimulating }) => {
+// Paths with their per-path geometry, cached until the factions change
+interface ConflictGeometry {
+  warState: WarState;
+  paths: ConflictPath[];
+  interpolators: ((t: number) => [number, number])[];
+  trajectories: GeoJSON.LineString[]; // Dashed great-circle lines
+}
+
+// Aggressor -> defender, aggressor allies -> defender, defender allies -> aggressor
+const getConflictPaths = (warState: WarState): ConflictPath[] => {
+  if (!warState.aggressor || !warState.defender) return [];
+  const centerAggressor = getCentroid(warState.aggressor);
+  const centerDefender = getCentroid(warState.defender);
+  return [
+    {
+      start: centerAggressor,
+      end: centerDefender,
+      color: '#f97316', // Orange
+      lineColor: 'rgba(234, 179, 8, 0.6)',
+      trailColor: 'rgba(249, 115, 22, 0.4)',
+      type: 'AGGRESSION'
+    },
+    ...warState.aggressorAllies.map((ally): ConflictPath => ({
+      start: getCentroid(ally),
+      end: centerDefender, // Join the assault on the defender
+      color: '#ef4444', // Red
+      lineColor: 'rgba(239, 68, 68, 0.5)',
+      trailColor: 'rgba(239, 68, 68, 0.4)',
+      type: 'ALLIED_ASSAULT'
+    })),
+    ...warState.defenderAllies.map((ally): ConflictPath => ({
+      start: getCentroid(ally),
+      end: centerAggressor, // Attack the aggressor
+      color: '#22d3ee', // Cyan
+      lineColor: 'rgba(34, 211, 238, 0.5)',
+      trailColor: 'rgba(34, 211, 238, 0.4)',
+      type: 'COUNTER_ATTACK'
+    }))
+  ];
+};
+
+interface CountryStyle {
+  fill: string;
+  stroke: string;
+  lineWidth: number;
+  glow: string; // shadowColor
+  blur: number; // shadowBlur, high quality only
+}
+
+const FACTION_STYLES: Record<CountryRole, CountryStyle> = {
+  AGGRESSOR: { fill: 'rgba(234, 88, 12, 0.6)', stroke: '#fdba74', lineWidth: 1, glow: '#f97316', blur: 10 },
+  DEFENDER: { fill: 'rgba(6, 182, 212, 0.5)', stroke: '#a5f3fc', lineWidth: 1, glow: '#22d3ee', blur: 10 },
+  AGGRESSOR_ALLY: { fill: 'rgba(220, 38, 38, 0.45)', stroke: '#fca5a5', lineWidth: 1, glow: '#ef4444', blur: 8 },
+  DEFENDER_ALLY: { fill: 'rgba(59, 130, 246, 0.5)', stroke: '#93c5fd', lineWidth: 1, glow: '#3b82f6', blur: 8 }
+};
+const NEUTRAL_STYLE: CountryStyle = { fill: 'rgba(2, 6, 23, 0.8)', stroke: 'rgba(6, 182, 212, 0.4)', lineWidth: 0.8, glow: '', blur: 0 };
+
+const TOOLTIP_STATS: [CombatStat, string][] = [
+  ['infantry', 'INF'], ['armor', 'ARM'], ['air', 'AIR'], ['cyber', 'CYB'], ['logistics', 'LOG'], ['intel', 'INT']
+];
+const TOOLTIP_WIDTH = 176; // px; flips to the cursor's left near the right edge
+
+// Intel card for the country under the cursor (positioned by the pointer handler, not React)
+const CountryTooltip: React.FC<{ country: CountryFeature; warState: WarState }> = ({ country, warState }) => {
+  useSyncExternalStore(subscribeCountryStats, getCountryStatsRevision); // Re-render on dataset import
+  const stats = getCountryStats(country);
+  const role = getCountryRole(warState, country);
+  return (
+    <div className="bg-slate-950/90 border border-cyan-500/40 p-2 font-mono text-[10px] shadow-[0_0_12px_rgba(6,182,212,0.25)]">
+      <div className="flex justify-between gap-2">
+        <span className="text-white font-bold truncate">{country.properties.name}</span>
+        <span className="text-cyan-400 shrink-0">PWR {Math.round(getPowerScore(stats))}</span>
+      </div>
+      <div className="mb-1.5" style={{ color: role ? COUNTRY_ROLE_STYLES[role].color : '#64748b' }}>
+        {role ? COUNTRY_ROLE_STYLES[role].label : 'NEUTRAL'} // TECH MK-{stats.techLevel}
+      </div>
+      {TOOLTIP_STATS.map(([stat, label]) => (
+        <div key={stat} className="flex items-center gap-1.5 text-[9px] text-slate-500">
+          <span className="w-6">{label}</span>
+          <div className="flex-1 h-1 bg-slate-800">
+            <div className="h-full bg-cyan-500/80" style={{ width: `${Math.min(100, stats[stat])}%` }} />
+          </div>
+          <span className="w-5 text-right text-slate-300">{stats[stat]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const HoloGlobe: React.FC<HoloGlobeProps> = ({
+  warState,
+  onCountrySelect,
+  isSimulating,
+  victorId = null,
+  onCountriesLoaded,
+  zones = [],
+  selectedZoneId = null,
+  onZoneSelect,
+  onLocationPick = null,
+  highlightedCountryId = null,
+  frontLine = null,
+  replayWeek = null,
+  ref
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [worldData, setWorldData] = useState<any>(null);
+
+  // Topology detail: chosen setting, what is currently drawn, and load status
+  const [resolutionSetting, setResolutionSetting] = useState<ResolutionSetting>('auto');
+  const [loadedResolution, setLoadedResolution] = useState<TopologyResolution | null>(null);
+  const [projectionScale, setProjectionScale] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [mapProjection, setMapProjection] = useState<MapProjection>('globe');
+  const [quality, setQuality] = useState<RenderQuality>(loadRenderQuality);
+  const qualityRef = useRef(quality);
+  const fpsRef = useRef<HTMLSpanElement>(null);
   
   // Refs for Prop Data (to access inside render loop without re-triggering effect)
   const warStateRef = useRef(warState);
   const isSimulatingRef = useRef(isSimulating);
   const onCountrySelectRef = useRef(onCountrySelect);
+  const victorIdRef = useRef(victorId);
+  const onCountriesLoadedRef = useRef(onCountriesLoaded);
+  const zonesRef = useRef(zones);
+  const selectedZoneIdRef = useRef(selectedZoneId);
+  const onZoneSelectRef = useRef(onZoneSelect);
+  const onLocationPickRef = useRef(onLocationPick);
+  const highlightedCountryIdRef = useRef(highlightedCountryId);
+  const frontLineRef = useRef(frontLine);
+  const replayWeekRef = useRef(replayWeek);
 
   // Keep refs updated
   useEffect(() => { warStateRef.current = warState; }, [warState]);
   useEffect(() => { isSimulatingRef.current = isSimulating; }, [isSimulating]);
   useEffect(() => { onCountrySelectRef.current = onCountrySelect; }, [onCountrySelect]);
+  useEffect(() => { victorIdRef.current = victorId; }, [victorId]);
+  useEffect(() => { onCountriesLoadedRef.current = onCountriesLoaded; }, [onCountriesLoaded]);
+  useEffect(() => { zonesRef.current = zones; }, [zones]);
+  useEffect(() => { selectedZoneIdRef.current = selectedZoneId; }, [selectedZoneId]);
+  useEffect(() => { onZoneSelectRef.current = onZoneSelect; }, [onZoneSelect]);
+  useEffect(() => { onLocationPickRef.current = onLocationPick; }, [onLocationPick]);
+  useEffect(() => { highlightedCountryIdRef.current = highlightedCountryId; }, [highlightedCountryId]);
+  useEffect(() => { frontLineRef.current = frontLine; }, [frontLine]);
+  useEffect(() => { replayWeekRef.current = replayWeek; }, [replayWeek]);
+  useEffect(() => {
+    qualityRef.current = quality;
+    saveRenderQuality(quality);
+  }, [quality]);
   
   // Physics & Interaction State
   const rotationRef = useRef<[number, number]>([0, -20]);
@@ -57,235 +281,511 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
   const isDraggingRef = useRef(false);
   const lastMouseRef = useRef<{x: number, y: number}>({ x: 0, y: 0 });
   const startDragRef = useRef<{x: number, y: number}>({ x: 0, y: 0 });
+  const zoomRef = useRef(1);
+  const zoomVelocityRef = useRef(0);
+  const pointersRef = useRef(new Map<number, {x: number, y: number}>()); // Active touches / pens / mouse
+  const pinchDistanceRef = useRef<number | null>(null);
+  const wasPinchedRef = useRef(false); // A pinch during the gesture cancels the click
+  const keysRef = useRef(new Set<string>()); // Held arrow keys
+  const flightRef = useRef<CameraFlight | null>(null);
+  // Hover: cursor position (CSS px) and the country under it; the tooltip follows the cursor via its ref
+  const hoverPointRef = useRef<{x: number, y: number} | null>(null);
+  const hoveredCountryRef = useRef<CountryFeature | null>(null);
+  const [hoveredCountry, setHoveredCountry] = useState<CountryFeature | null>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const idleHoldRef = useRef(false); // After a camera flight, hold still until the user takes over
+  const transitionRef = useRef<ProjectionTransition>({ from: 'globe', to: 'globe', start: 0 });
+  const viewportRef = useRef({ width: 0, height: 0 });
+
+  // Morph to a newly chosen projection; switching back mid-morph reverses it from where it is
+  useEffect(() => {
+    const current = transitionRef.current;
+    if (current.to === mapProjection) return;
+    const now = Date.now();
+    const elapsed = now - current.start;
+    const reverse = current.from === mapProjection && elapsed < PROJECTION_TRANSITION_MS;
+    transitionRef.current = { from: current.to, to: mapProjection, start: reverse ? now - (PROJECTION_TRANSITION_MS - elapsed) : now };
+  }, [mapProjection]);
+
+  // --- CAMERA API ---
+  useImperativeHandle(ref, () => {
+    const fly = (rotation: [number, number], zoom: number) => {
+      const from: CameraView = { rotation: [rotationRef.current[0], rotationRef.current[1]], zoom: zoomRef.current };
+      const to: CameraView = {
+        rotation: [rotation[0], Math.max(-getMaxTilt(zoom), Math.min(getMaxTilt(zoom), rotation[1]))],
+        zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
+      };
+      const duration = CAMERA_BASE_MS + getViewDistance(from, to) * CAMERA_MS_PER_DEGREE + Math.abs(Math.log(to.zoom / from.zoom)) * CAMERA_MS_PER_ZOOM_STEP;
+      flightRef.current = { from, to, start: Date.now(), duration: Math.min(CAMERA_MAX_MS, duration) };
+      velocityRef.current = [0, 0];
+      zoomVelocityRef.current = 0;
+      idleHoldRef.current = true;
+    };
+    return {
+      flyTo: (coordinates, zoom = zoomRef.current) => fly(getRotationFor([coordinates.lng, coordinates.lat]), zoom),
+      focusCountry: country => fly(getRotationFor(getBoundingCircle([country]).center), zoomRef.current),
+      frameTheatre: countries => {
+        if (countries.length === 0) return;
+        const { center, radius } = getBoundingCircle(countries);
+        const { width, height } = viewportRef.current;
+        fly(getRotationFor(center), getFitZoom(radius, transitionRef.current.to, width, height));
+      }
+    };
+  }, []);
+
+  // Any direct input cancels a flight and resumes normal physics
+  const takeControl = () => {
+    flightRef.current = null;
+    idleHoldRef.current = false;
+  };
   
-  // Load World Data
+  // Load World Data (bundled; resolution follows the setting and, in auto mode, the drawn globe size)
+  const wantedResolution = resolveResolution(resolutionSetting, projectionScale);
   useEffect(() => {
-    fetch('https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json')
-      .then(response => response.json())
-      .then(topology => {
-        const countries = topojson.feature(topology, topology.objects.countries);
-        setWorldData(countries);
+    if (wantedResolution === loadedResolution) {
+      setLoadError(null);
+      return;
+    }
+    let cancelled = false;
+    setLoadError(null);
+    loadCountries(wantedResolution)
+      .then(features => {
+        if (cancelled) return;
+        setWorldData({ type: 'FeatureCollection', features });
+        setLoadedResolution(wantedResolution);
+        onCountriesLoadedRef.current?.(features);
       })
-      .catch(err => console.error("Failed to load map data", err));
-  }, []);
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Failed to load map data", err);
+        setLoadError(`${wantedResolution.toUpperCase()} topology unavailable: ${(err as Error).message}`);
+      });
+    return () => { cancelled = true; };
+  }, [wantedResolution, loadedResolution, loadAttempt]);
 
   // Main Graphics Loop
   useEffect(() => {
     if (!containerRef.current || !canvasRef.current || !worldData) return;
 
-    const width = containerRef.current.clientWidth;
-    const height = containerRef.current.clientHeight;
+    // Viewport size in CSS px; follows the container live (see applyCanvasSize)
+    const container = containerRef.current;
+    let width = 0;
+    let height = 0;
     const canvas = canvasRef.current;
     const context = canvas.getContext('2d');
 
     if (!context) return;
 
-    // High DPI Support
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = width * dpr;
-    canvas.height = height * dpr;
-    context.scale(dpr, dpr);
-    canvas.style.width = `${width}px`;
-    canvas.style.height = `${height}px`;
-
-    // Projections
-    // 1. Front (Clipped)
-    const projection = d3.geoOrthographic()
-      .scale(height / 2.2)
-      .translate([width / 2, height / 2])
-      .clipAngle(90)
-      .rotate(rotationRef.current); // Set initial rotation
+    // Static layers (backside, glow, graticule, countries, rim) are drawn offscreen and blitted
+    const layerCanvas = document.createElement('canvas');
+    const layerContext = layerCanvas.getContext('2d');
+    if (!layerContext) return;
+    let layerKey = '';                          // View the cached layers were drawn for
+    let layerWarState: WarState | null = null;  // Factions they were colored for
+
+    // High DPI Support (capped by the quality setting). The backing stores are re-laid out
+    // when the container resizes or the ratio changes (another monitor, browser zoom);
+    // camera and animation state live outside this and carry over.
+    let pixelRatio = 0;
+    let sizeChanged = true;
+    const applyCanvasSize = (ratio: number) => {
+      width = container.clientWidth;
+      height = container.clientHeight;
+      viewportRef.current = { width, height };
+      backProjection.translate([width / 2, height / 2]);
+      sizeChanged = false;
+      pixelRatio = ratio;
+      [canvas, layerCanvas].forEach(target => {
+        target.width = width * ratio;
+        target.height = height * ratio;
+      });
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      layerContext.setTransform(ratio, 0, 0, ratio, 0, 0);
+      layerKey = '';
+    };
+    const resizeObserver = new ResizeObserver(() => { sizeChanged = true; });
+    resizeObserver.observe(container);
+
+    // Projections (scale, rotation and shape are updated every frame)
+    // 1. Front: the globe, a flat map, or a morph between them
+    const { projection, update: updateProjection } = createViewProjection();
+    let blendKey = '';
+    const getView = () => {
+      const { from, to, start } = transitionRef.current;
+      const t = d3.easeCubicInOut(Math.min(1, (Date.now() - start) / PROJECTION_TRANSITION_MS));
+      blendKey = `${from}>${to}@${t}`;
+      return updateProjection({ from, to, t }, rotationRef.current, zoomRef.current, width, height);
+    };
+    let view: ProjectedView = { scale: 0, globe: 1, clipAngle: Math.PI / 2 }; // Until the first frame
+    let reportedScale = 0;
+
+    // Screen point to [lng, lat], or null off the map (round-trips, so flat maps do not wrap around)
+    const invertPoint = (x: number, y: number): [number, number] | null => {
+      const point = projection.invert?.([x, y]);
+      if (!point || !point.every(Number.isFinite)) return null;
+      const back = projection(point);
+      return back && Math.hypot(back[0] - x, back[1] - y) < 1 ? point : null;
+    };
 
     const path = d3.geoPath()
       .projection(projection)
       .context(context);
+    const layerPath = d3.geoPath()
+      .projection(projection)
+      .context(layerContext);
 
-    // 2. Back (Full globe for transparency effect)
+    // 2. Back (Full globe for transparency effect; globe mode only)
     const backProjection = d3.geoOrthographic()
-      .scale(height / 2.2)
-      .translate([width / 2, height / 2])
       .clipAngle(180)
       .rotate(rotationRef.current);
-    
+
     const backPath = d3.geoPath()
       .projection(backProjection)
-      .context(context);
+      .context(layerContext);
+
+    const countryIndex = getCountryIndex(worldData.features);
+    const featuresById = new Map<string | number, CountryFeature>(worldData.features.map((feature: CountryFeature) => [feature.id, feature]));
+    const graticule = d3.geoGraticule()();
 
     // Animation Variables
     let animationId: number;
-    let particles: Particle[] = [];
-    let missiles: Missile[] = [];
     let lastTime = Date.now();
-    
-    // Initialize missiles for multiple paths
-    const initMissiles = () => {
-        missiles = [];
-        // We will spawn missiles dynamically based on active paths in the render loop
-        // But to keep state simple, we can pre-seed a pool
-        for(let i=0; i<20; i++) {
-            missiles.push({
-                t: Math.random(), // Start at random positions
-                speed: 0.2 + Math.random() * 0.2,
-                offset: Math.random(),
-                id: i,
-                pathIndex: 0 // Placeholder, assigned in render
-            });
+    let zoneMarkers: ZoneMarker[] = []; // Screen positions from the last frame, for hit-testing
+    let fpsFrames = 0;
+    let fpsSince = lastTime;
+
+    // Object pools: missiles are recycled along their paths, dead particles (life <= 0) are reused
+    const missiles: Missile[] = Array.from({ length: MISSILE_POOL_SIZE }, (_, i) => ({
+      t: Math.random(), // Start at random positions
+      speed: 0.2 + Math.random() * 0.2,
+      offset: Math.random(),
+      id: i,
+      pathIndex: 0 // Placeholder, assigned in render
+    }));
+    const particles: Particle[] = Array.from({ length: PARTICLE_POOL_SIZE }, () => ({
+      x: 0, y: 0, vx: 0, vy: 0, life: 0, maxLife: 1, size: 0, color: ''
+    }));
+    const spawnParticle = (x: number, y: number, color: string, limit: number) => {
+      for (let i = 0; i < limit; i++) {
+        const p = particles[i];
+        if (p.life > 0) continue;
+        p.x = x;
+        p.y = y;
+        p.vx = (Math.random() - 0.5) * 20;
+        p.vy = (Math.random() - 0.5) * 20;
+        p.life = 1.0;
+        p.maxLife = 1.0;
+        p.size = Math.random() * 10 + 5;
+        p.color = color;
+        return;
+      }
+      // Pool exhausted at this quality: skip the impact
+    };
+
+    // Conflict paths and their interpolators only change with the factions
+    let conflict: ConflictGeometry | null = null;
+    const getConflict = (warState: WarState) => {
+      if (conflict?.warState !== warState) {
+        const paths = getConflictPaths(warState);
+        conflict = {
+          warState,
+          paths,
+          interpolators: paths.map(p => d3.geoInterpolate(p.start, p.end)),
+          trajectories: paths.map(p => ({ type: 'LineString', coordinates: [p.start, p.end] }))
+        };
+      }
+      return conflict;
+    };
+
+    const drawStaticLayers = (warState: WarState, profile: QualityProfile) => {
+      const { scale, globe } = view;
+      layerContext.clearRect(0, 0, width, height);
+
+      // --- LAYER 1: BACKSIDE (Transparency Effect) ---
+      if (profile.backside && globe >= 1) {
+        layerContext.beginPath();
+        backPath(worldData);
+        layerContext.fillStyle = 'rgba(6, 182, 212, 0.03)';
+        layerContext.fill();
+        layerContext.strokeStyle = 'rgba(6, 182, 212, 0.05)';
+        layerContext.lineWidth = 0.5;
+        layerContext.stroke();
+      }
+
+      // --- LAYER 2: ATMOSPHERE & GLOW (fades out toward a flat map) ---
+      if (profile.glow && globe > 0) {
+        const gradient = layerContext.createRadialGradient(width/2, height/2, Math.max(0, scale * 0.88 - 20), width/2, height/2, scale + 20);
+        gradient.addColorStop(0, "rgba(2, 6, 23, 0)");
+        gradient.addColorStop(0.85, `rgba(6, 182, 212, ${0.1 * globe})`); // Inner glow
+        gradient.addColorStop(1, "rgba(6, 182, 212, 0)");
+        layerContext.fillStyle = gradient;
+        layerContext.fillRect(0, 0, width, height);
+      }
+
+      // --- LAYER 3: FRONT SIDE COUNTRIES ---
+      // Draw grid
+      layerContext.beginPath();
+      layerPath(graticule);
+      layerContext.lineWidth = 0.5;
+      layerContext.strokeStyle = 'rgba(6, 182, 212, 0.1)';
+      layerContext.stroke();
+
+      // Draw Countries
+      worldData.features.forEach((feature: CountryFeature) => {
+        const role = getCountryRole(warState, feature);
+        const style = role ? FACTION_STYLES[role] : NEUTRAL_STYLE;
+        layerContext.beginPath();
+        layerPath(feature);
+        layerContext.fillStyle = style.fill;
+        layerContext.fill();
+        if (profile.shadows && style.blur > 0) {
+          layerContext.shadowBlur = style.blur;
+          layerContext.shadowColor = style.glow;
         }
+        layerContext.strokeStyle = style.stroke;
+        layerContext.lineWidth = style.lineWidth;
+        layerContext.stroke();
+        layerContext.shadowBlur = 0;
+      });
+
+      // --- LAYER 4: OUTER RING ---
+      layerContext.beginPath();
+      layerPath({ type: 'Sphere' });
+      layerContext.strokeStyle = 'rgba(6, 182, 212, 0.8)';
+      layerContext.lineWidth = 2;
+      layerContext.stroke();
     };
-    initMissiles();
 
     const render = () => {
       const now = Date.now();
       const dt = Math.min((now - lastTime) / 1000, 0.1); // Cap dt
       lastTime = now;
-      
+
       const currentWarState = warStateRef.current;
-      const currentIsSimulating = isSimulatingRef.current;
+      const replay = replayWeekRef.current;
+      // A replayed week plays the war at that week's intensity
+      const currentIsSimulating = isSimulatingRef.current || !!replay;
+      const warIntensity = replay ? replay.intensity : 1;
+      const profile = QUALITY_PROFILES[qualityRef.current];
+
+      const ratio = Math.min(window.devicePixelRatio || 1, profile.maxPixelRatio);
+      if (sizeChanged || ratio !== pixelRatio) applyCanvasSize(ratio);
+      if (width === 0 || height === 0) { // Collapsed panel: nothing to draw or hit-test
+        animationId = requestAnimationFrame(render);
+        return;
+      }
+
+      // Frame rate readout, written straight to the DOM
+      fpsFrames++;
+      if (now - fpsSince >= FPS_SAMPLE_MS) {
+        if (fpsRef.current) fpsRef.current.textContent = `${Math.round(fpsFrames * 1000 / (now - fpsSince))} FPS`;
+        fpsFrames = 0;
+        fpsSince = now;
+      }
+
+      // Camera flight overrides the physics until it lands
+      const flight = flightRef.current;
+      if (flight) {
+        const t = Math.min(1, (now - flight.start) / flight.duration);
+        const view = interpolateView(flight.from, flight.to)(d3.easeCubicInOut(t));
+        rotationRef.current = view.rotation;
+        zoomRef.current = view.zoom;
+        if (t >= 1) flightRef.current = null;
+      }
+
+      // Physics: Zoom inertia (wheel, pinch release, +/- keys)
+      if (!flight && pinchDistanceRef.current === null && zoomVelocityRef.current !== 0) {
+        const zoom = zoomRef.current * Math.exp(zoomVelocityRef.current);
+        zoomRef.current = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+        zoomVelocityRef.current = zoom === zoomRef.current ? zoomVelocityRef.current * ZOOM_FRICTION : 0;
+        if (Math.abs(zoomVelocityRef.current) < 1e-4) zoomVelocityRef.current = 0;
+      }
+      const zoom = zoomRef.current;
 
       // Physics: Rotation & Inertia
-      if (!isDraggingRef.current) {
+      if (!flight && !isDraggingRef.current) {
+        // Held arrow keys steer directly; slower when zoomed in
+        const keys = keysRef.current;
+        if (keys.size > 0) {
+          const step = KEY_ROTATE_SPEED / zoom;
+          velocityRef.current = [
+            (keys.has('ArrowLeft') ? step : 0) - (keys.has('ArrowRight') ? step : 0),
+            (keys.has('ArrowDown') ? step : 0) - (keys.has('ArrowUp') ? step : 0)
+          ];
+        }
+
         // Apply friction to velocity
         velocityRef.current[0] *= 0.92;
         velocityRef.current[1] *= 0.92;
         
-        // Minimum auto-rotation
-        if (Math.abs(velocityRef.current[0]) < 0.05) {
+        // Minimum auto-rotation (flat maps and low quality hold still)
+        const idleSpin = idleHoldRef.current || view.globe < 1 || !profile.idleSpin ? 0 : 0.05 / zoom;
+        if (Math.abs(velocityRef.current[0]) < idleSpin) {
              // slowly ramp back up to idle spin
-             velocityRef.current[0] = velocityRef.current[0] * 0.9 + 0.05 * 0.1;
+             velocityRef.current[0] = velocityRef.current[0] * 0.9 + idleSpin * 0.1;
         }
 
         rotationRef.current[0] += velocityRef.current[0];
         rotationRef.current[1] += velocityRef.current[1];
-        
-        // Clamp Y rotation
-        rotationRef.current[1] = Math.max(-45, Math.min(45, rotationRef.current[1]));
       }
+      // Clamp Y rotation (flight targets are clamped up front)
+      const maxTilt = getMaxTilt(zoom);
+      if (!flight) rotationRef.current[1] = Math.max(-maxTilt, Math.min(maxTilt, rotationRef.current[1]));
 
-      projection.rotate(rotationRef.current);
-      backProjection.rotate(rotationRef.current);
+      view = getView();
+      const { scale, globe, clipAngle } = view;
+      backProjection.rotate(rotationRef.current).scale(scale);
+      // Visible hemisphere (or more, mid-morph); everything on a flat map
+      const viewCenter: [number, number] = [-rotationRef.current[0], -rotationRef.current[1] * globe];
+      const isVisible = (point: [number, number]) => d3.geoDistance(point, viewCenter) < clipAngle;
 
-      // Clear
+      // Report the drawn size in coarse steps so auto map detail can follow the zoom
+      if (Math.abs(scale - reportedScale) > reportedScale * SCALE_REPORT_STEP) {
+        reportedScale = scale;
+        setProjectionScale(scale);
+      }
+
+      // Hover hit test, every frame: the globe turns under a resting cursor
+      const hoverPoint = isDraggingRef.current ? null : hoverPointRef.current;
+      const hoverLngLat = hoverPoint ? invertPoint(hoverPoint.x, hoverPoint.y) : null;
+      const hovered = hoverLngLat ? countryIndex.find(hoverLngLat) : null;
+      if (hovered !== hoveredCountryRef.current) {
+        hoveredCountryRef.current = hovered;
+        setHoveredCountry(hovered);
+      }
+
+      // Static layers: redrawn offscreen only when the view, factions or quality change
+      const key = `${rotationRef.current[0]}|${rotationRef.current[1]}|${scale}|${blendKey}|${qualityRef.current}`;
+      if (key !== layerKey || currentWarState !== layerWarState) {
+        drawStaticLayers(currentWarState, profile);
+        layerKey = key;
+        layerWarState = currentWarState;
+      }
       context.clearRect(0, 0, width, height);
+      context.drawImage(layerCanvas, 0, 0, width, height);
 
-      // --- LAYER 1: BACKSIDE (Transparency Effect) ---
-      context.beginPath();
-      backPath(worldData);
-      context.fillStyle = 'rgba(6, 182, 212, 0.03)';
-      context.fill();
-      context.strokeStyle = 'rgba(6, 182, 212, 0.05)';
-      context.lineWidth = 0.5;
-      context.stroke();
-
-      // --- LAYER 2: ATMOSPHERE & GLOW ---
-      const gradient = context.createRadialGradient(width/2, height/2, height/2.5 - 20, width/2, height/2, height/2.2 + 20);
-      gradient.addColorStop(0, "rgba(2, 6, 23, 0)");
-      gradient.addColorStop(0.85, "rgba(6, 182, 212, 0.1)"); // Inner glow
-      gradient.addColorStop(1, "rgba(6, 182, 212, 0)");
-      context.fillStyle = gradient;
-      context.fillRect(0, 0, width, height);
+      // --- LAYER 5: COUNTRY OVERLAYS ---
+      // Victor highlight: pulsing gold outline on the last simulation's winner
+      const victor = victorIdRef.current !== null ? featuresById.get(victorIdRef.current) : null;
+      if (victor) {
+        const pulse = 0.5 + 0.5 * Math.sin(now / 300);
+        context.beginPath();
+        path(victor);
+        if (profile.shadows) {
+          context.shadowBlur = 15;
+          context.shadowColor = '#facc15';
+        }
+        context.strokeStyle = `rgba(250, 204, 21, ${0.5 + pulse * 0.5})`;
+        context.lineWidth = 1.5 + pulse * 1.5;
+        context.stroke();
+        context.shadowBlur = 0;
+      }
 
-      // --- LAYER 3: FRONT SIDE COUNTRIES ---
-      // Draw grid
-      const graticule = d3.geoGraticule();
-      context.beginPath();
-      path(graticule());
-      context.lineWidth = 0.5;
-      context.strokeStyle = 'rgba(6, 182, 212, 0.1)';
-      context.stroke();
+      // Highlighted country: bright dashed outline that stays visible over any faction color
+      const highlighted = highlightedCountryIdRef.current !== null ? featuresById.get(highlightedCountryIdRef.current) : null;
+      if (highlighted) {
+        context.beginPath();
+        path(highlighted);
+        context.fillStyle = 'rgba(255, 255, 255, 0.12)';
+        context.fill();
+        context.setLineDash([3, 3]);
+        context.strokeStyle = '#ffffff';
+        context.lineWidth = 1.5;
+        context.stroke();
+        context.setLineDash([]);
+      }
 
-      // Draw Countries
-      if (worldData.features) {
-        worldData.features.forEach((feature: CountryFeature) => {
-          context.beginPath();
-          path(feature);
-          
-          const isAggressor = currentWarState.aggressor?.id === feature.id;
-          const isDefender = currentWarState.defender?.id === feature.id;
-          const isAlly = currentWarState.defenderAllies.some(ally => ally.id === feature.id);
-
-          if (isAggressor) {
-            context.fillStyle = 'rgba(234, 88, 12, 0.6)'; // Red/Orange (Aggressor)
-            context.fill();
-            context.shadowBlur = 10;
-            context.shadowColor = '#f97316';
-            context.strokeStyle = '#fdba74';
-            context.lineWidth = 1;
-          } else if (isDefender) {
-            context.fillStyle = 'rgba(6, 182, 212, 0.5)'; // Cyan (Defender)
-            context.fill();
-            context.shadowBlur = 10;
-            context.shadowColor = '#22d3ee';
-            context.strokeStyle = '#a5f3fc';
-            context.lineWidth = 1;
-          } else if (isAlly) {
-            context.fillStyle = 'rgba(59, 130, 246, 0.5)'; // Blue (Ally)
-            context.fill();
-            context.shadowBlur = 8;
-            context.shadowColor = '#3b82f6';
-            context.strokeStyle = '#93c5fd';
-            context.lineWidth = 1;
-          } else {
-             // Standard Country
-             context.fillStyle = 'rgba(2, 6, 23, 0.8)'; // Dark background
-             context.fill();
-             context.shadowBlur = 0;
-             context.strokeStyle = 'rgba(6, 182, 212, 0.4)';
-             context.lineWidth = 0.8;
-          }
-          context.stroke();
-          
-          // Reset shadow
-          context.shadowBlur = 0;
-        });
+      // Hovered country: solid outline
+      if (hovered && hovered !== highlighted) {
+        context.beginPath();
+        path(hovered);
+        context.fillStyle = 'rgba(165, 243, 252, 0.08)';
+        context.fill();
+        context.strokeStyle = 'rgba(236, 254, 255, 0.9)';
+        context.lineWidth = 1.2;
+        context.stroke();
       }
 
-      // --- LAYER 4: WAR SIMULATION ---
-      if (currentWarState.aggressor && currentWarState.defender && currentIsSimulating) {
-        
-        // Define all active conflict paths
-        const paths: ConflictPath[] = [];
-        
-        const centerAggressor = d3.geoCentroid(currentWarState.aggressor);
-        const centerDefender = d3.geoCentroid(currentWarState.defender);
-        
-        // 1. Primary: Aggressor -> Defender
-        paths.push({
-            start: centerAggressor,
-            end: centerDefender,
-            color: '#f97316', // Orange
-            type: 'AGGRESSION'
-        });
+      // Land front between the blocs: glowing, brighter while the war is being simulated
+      if (frontLineRef.current) {
+        const pulse = currentIsSimulating ? (0.5 + 0.5 * Math.sin(now / 200)) * warIntensity : 0;
+        context.beginPath();
+        path(frontLineRef.current);
+        if (profile.shadows) {
+          context.shadowBlur = 12;
+          context.shadowColor = '#ef4444';
+        }
+        context.strokeStyle = `rgba(254, 202, 202, ${0.6 + pulse * 0.4})`;
+        context.lineWidth = 2 + pulse * 1.5;
+        context.stroke();
+        context.shadowBlur = 0;
+      }
 
-        // 2. Secondary: Allies -> Aggressor (Counter-attack)
-        currentWarState.defenderAllies.forEach(ally => {
-            const centerAlly = d3.geoCentroid(ally);
-            paths.push({
-                start: centerAlly,
-                end: centerAggressor, // Attack the aggressor
-                color: '#22d3ee', // Cyan
-                type: 'COUNTER_ATTACK'
-            });
-        });
+      // --- LAYER 6: CONFLICT ZONE MARKERS ---
+      zoneMarkers = [];
+      zonesRef.current.forEach(zone => {
+        const coords: [number, number] = [zone.coordinates.lng, zone.coordinates.lat];
+        if (!isVisible(coords)) return; // Far side of the globe
+        const pos = projection(coords);
+        if (!pos) return;
+
+        const color = THREAT_LEVEL_COLORS[zone.threatLevel];
+        const radius = getZoneMarkerRadius(zone);
+        const pulse = (now / 1000 * THREAT_PULSE_HZ[zone.threatLevel]) % 1;
+
+        // Expanding, fading ring
+        context.beginPath();
+        context.arc(pos[0], pos[1], radius * (1 + pulse * 1.5), 0, Math.PI * 2);
+        context.strokeStyle = `${color}${Math.floor((1 - pulse) * 255).toString(16).padStart(2, '0')}`;
+        context.lineWidth = 1.5;
+        context.stroke();
+
+        // Core
+        context.beginPath();
+        context.arc(pos[0], pos[1], radius * 0.45, 0, Math.PI * 2);
+        context.fillStyle = color;
+        if (profile.shadows) {
+          context.shadowBlur = 10;
+          context.shadowColor = color;
+        }
+        context.fill();
+        context.shadowBlur = 0;
+
+        // Selected zone: targeting brackets and label
+        if (zone.id === selectedZoneIdRef.current) {
+          const r = radius * 1.8;
+          context.strokeStyle = color;
+          context.lineWidth = 1;
+          context.strokeRect(pos[0] - r, pos[1] - r, r * 2, r * 2);
+          context.font = '10px monospace';
+          context.fillStyle = color;
+          context.fillText(zone.name.toUpperCase(), pos[0] + r + 4, pos[1] + 3);
+        }
+
+        zoneMarkers.push({ zone, x: pos[0], y: pos[1], radius });
+      });
+
+      // --- LAYER 7: WAR SIMULATION ---
+      if (currentWarState.aggressor && currentWarState.defender && currentIsSimulating) {
+        const { paths, interpolators, trajectories } = getConflict(currentWarState);
 
         // Draw paths and update missiles
         paths.forEach((p, pathIdx) => {
              // Draw Trajectory Line
-            const trajectory: any = { type: "LineString", coordinates: [p.start, p.end] };
             context.beginPath();
-            path(trajectory);
+            path(trajectories[pathIdx]);
             context.setLineDash([4, 8]);
             context.lineDashOffset = -now * (pathIdx === 0 ? 0.05 : 0.03); // Animate dash
             context.lineWidth = 2;
-            context.strokeStyle = p.color === '#f97316' ? 'rgba(234, 179, 8, 0.6)' : 'rgba(34, 211, 238, 0.5)'; 
+            context.strokeStyle = p.lineColor;
             context.stroke();
             context.setLineDash([]); // Reset
         });
 
         // Update & Draw Missiles (Jets)
-        // We assign missiles to paths using modulo
-        const interpolators = paths.map(p => d3.geoInterpolate(p.start, p.end));
-        
+        // We assign missiles to paths using modulo; the quality setting caps how many fly
         missiles.forEach((m, idx) => {
+            if (idx >= Math.ceil(profile.missiles * warIntensity)) return;
             const assignedPathIdx = idx % paths.length; // Distribute missiles across all paths
             const interpolator = interpolators[assignedPathIdx];
             const p = paths[assignedPathIdx];
@@ -305,12 +805,8 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
                 const nextProjected = projection(nextPos);
 
                 // Visibility check (is it on front side?)
-                const center = [width/2, height/2];
                 if (projectedPos && nextProjected) {
-                   const dist = Math.sqrt(Math.pow(projectedPos[0] - center[0], 2) + Math.pow(projectedPos[1] - center[1], 2));
-                   
-                   // Check if visible (within globe radius)
-                   if (dist < (height/2.2)) {
+                   if (isVisible(pos)) {
                        
                        // Calculate Rotation Angle
                        const angle = Math.atan2(
@@ -333,18 +829,20 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
                        context.closePath();
 
                        context.fillStyle = '#fff';
-                       context.shadowBlur = 8;
-                       context.shadowColor = p.color; 
+                       if (profile.shadows) {
+                           context.shadowBlur = 8;
+                           context.shadowColor = p.color;
+                       }
                        context.fill();
                        context.restore();
 
                        // --- Draw Afterburner Trail ---
                        const prevPos = projection(interpolator(Math.max(0, cycleT - 0.05)));
-                       if (prevPos) {
+                       if (prevPos && Math.hypot(prevPos[0] - projectedPos[0], prevPos[1] - projectedPos[1]) < MAX_TRAIL_JUMP_PX * zoom) {
                            context.beginPath();
                            context.moveTo(projectedPos[0], projectedPos[1]);
                            context.lineTo(prevPos[0], prevPos[1]);
-                           context.strokeStyle = p.color === '#f97316' ? 'rgba(249, 115, 22, 0.4)' : 'rgba(34, 211, 238, 0.4)';
+                           context.strokeStyle = p.trailColor;
                            context.lineWidth = 3;
                            context.lineCap = 'round';
                            context.stroke();
@@ -352,37 +850,22 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
 
                        // Spawn impact particles when reaching destination
                        if (cycleT > 0.95 && Math.random() < 0.3) {
-                          const destCoords = p.end;
-                          const destPos = projection(destCoords);
-                          if (destPos) {
-                              particles.push({
-                                  x: destPos[0],
-                                  y: destPos[1],
-                                  vx: (Math.random() - 0.5) * 20,
-                                  vy: (Math.random() - 0.5) * 20,
-                                  life: 1.0,
-                                  maxLife: 1.0,
-                                  size: Math.random() * 10 + 5,
-                                  color: p.color
-                              });
-                          }
+                          const destPos = projection(p.end);
+                          if (destPos) spawnParticle(destPos[0], destPos[1], p.color, profile.maxParticles);
                        }
                    }
                 }
             }
         });
 
-        // 3. Particle System (Explosions/Impacts)
-        for (let i = particles.length - 1; i >= 0; i--) {
+        // 4. Particle System (Explosions/Impacts); dead particles stay in the pool
+        for (let i = 0; i < particles.length; i++) {
             const p = particles[i];
+            if (p.life <= 0) continue;
             p.life -= dt * 1.5; // Decay
             p.x += p.vx * dt;
             p.y += p.vy * dt;
-            
-            if (p.life <= 0) {
-                particles.splice(i, 1);
-                continue;
-            }
+            if (p.life <= 0) continue;
 
             // Draw Shockwave ring
             context.beginPath();
@@ -393,85 +876,218 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
         }
       }
 
-      // --- LAYER 5: OUTER RING ---
-      context.beginPath();
-      path({ type: 'Sphere' });
-      context.strokeStyle = 'rgba(6, 182, 212, 0.8)';
-      context.lineWidth = 2;
-      context.stroke();
+      // --- LAYER 8: KEYBOARD CROSSHAIR (Enter selects what is under it) ---
+      if (canvas.matches(':focus-visible')) {
+        const cx = width / 2;
+        const cy = height / 2;
+        context.beginPath();
+        context.moveTo(cx - 12, cy); context.lineTo(cx - 4, cy);
+        context.moveTo(cx + 4, cy); context.lineTo(cx + 12, cy);
+        context.moveTo(cx, cy - 12); context.lineTo(cx, cy - 4);
+        context.moveTo(cx, cy + 4); context.lineTo(cx, cy + 12);
+        context.strokeStyle = 'rgba(165, 243, 252, 0.9)';
+        context.lineWidth = 1;
+        context.stroke();
+        context.font = '9px monospace';
+        context.fillStyle = 'rgba(165, 243, 252, 0.7)';
+        context.fillText(`ZOOM ${zoom.toFixed(1)}x`, cx + 16, cy + 14);
+      }
 
       animationId = requestAnimationFrame(render);
     };
 
     render();
 
-    // Event Handlers
-    const handleMouseDown = (e: MouseEvent) => {
-      isDraggingRef.current = true;
+    // Selection at a point in CSS pixels: placement pick, then zone markers, then countries.
+    // Uses the live projection, so hit-testing follows rotation, zoom and map projection.
+    const selectAt = (x: number, y: number) => {
+      if (onLocationPickRef.current) {
+        const picked = invertPoint(x, y);
+        if (picked) onLocationPickRef.current({ lng: picked[0], lat: picked[1] });
+        return;
+      }
+
+      // Zone markers sit on top of countries, so they win the hit test
+      const hitZone = zoneMarkers.find(m => Math.hypot(m.x - x, m.y - y) <= m.radius + 4);
+      if (hitZone) {
+        onZoneSelectRef.current?.(hitZone.zone);
+        return;
+      }
+
+      const inverted = invertPoint(x, y);
+      if (inverted) {
+        const clickedCountry = countryIndex.find(inverted);
+
+        if (clickedCountry) {
+          onCountrySelectRef.current(clickedCountry);
+        }
+      }
+    };
+
+    const getPinchDistance = () => {
+      const [a, b] = [...pointersRef.current.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    // Event Handlers (pointer events cover mouse, touch and pen)
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse' && e.button !== 0) return;
+      takeControl();
+      canvas.setPointerCapture(e.pointerId);
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
       velocityRef.current = [0, 0]; // Stop inertia on grab
-      lastMouseRef.current = { x: e.clientX, y: e.clientY };
-      startDragRef.current = { x: e.clientX, y: e.clientY };
+
+      if (pointersRef.current.size === 1) {
+        isDraggingRef.current = true;
+        wasPinchedRef.current = false;
+        lastMouseRef.current = { x: e.clientX, y: e.clientY };
+        startDragRef.current = { x: e.clientX, y: e.clientY };
+      } else if (pointersRef.current.size === 2) {
+        // Second finger: switch from rotating to pinch zoom
+        pinchDistanceRef.current = getPinchDistance();
+        zoomVelocityRef.current = 0;
+        wasPinchedRef.current = true;
+      }
+    };
+
+    // Mouse and pen hover (touch has no hover); the tooltip is moved directly to skip React renders
+    const updateHover = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') return;
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      hoverPointRef.current = { x, y };
+      const tooltip = tooltipRef.current;
+      if (tooltip) {
+        const left = x + 14 + TOOLTIP_WIDTH > rect.width ? x - 14 - TOOLTIP_WIDTH : x + 14;
+        tooltip.style.transform = `translate(${left}px, ${y + 14}px)`;
+      }
+    };
+
+    const handlePointerLeave = () => {
+      hoverPointRef.current = null;
     };
 
-    const handleMouseMove = (e: MouseEvent) => {
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!pointersRef.current.has(e.pointerId)) {
+        updateHover(e);
+        return;
+      }
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pinchDistanceRef.current !== null && pointersRef.current.size >= 2) {
+        const distance = getPinchDistance();
+        const step = Math.log(distance / pinchDistanceRef.current);
+        zoomRef.current = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoomRef.current * Math.exp(step)));
+        zoomVelocityRef.current = step; // Carried on as inertia when the pinch ends
+        pinchDistanceRef.current = distance;
+        return;
+      }
+
       if (isDraggingRef.current) {
+        // Degrees per pixel shrink with zoom so the surface tracks the pointer; flat maps follow it exactly
+        const sensitivity = view.globe > 0 ? 0.5 / zoomRef.current : 180 / Math.PI / view.scale;
         const dx = e.clientX - lastMouseRef.current.x;
         const dy = e.clientY - lastMouseRef.current.y;
         
         // Update Rotation directly via ref
         rotationRef.current = [
-          rotationRef.current[0] + dx * 0.5, 
-          rotationRef.current[1] - dy * 0.5
+          rotationRef.current[0] + dx * sensitivity, 
+          rotationRef.current[1] - dy * sensitivity
         ];
 
         // Store velocity for inertia release
-        velocityRef.current = [dx * 0.5, -dy * 0.5];
+        velocityRef.current = [dx * sensitivity, -dy * sensitivity];
         
         lastMouseRef.current = { x: e.clientX, y: e.clientY };
       }
     };
 
-    const handleMouseUp = (e: MouseEvent) => {
-      if (isDraggingRef.current) {
-        isDraggingRef.current = false;
-        
-        const dist = Math.sqrt(
-          Math.pow(e.clientX - startDragRef.current.x, 2) + 
-          Math.pow(e.clientY - startDragRef.current.y, 2)
-        );
-
-        // Click detection
-        if (dist < 15) {
-          const rect = canvas.getBoundingClientRect();
-          const scaleX = canvas.width / rect.width;
-          const scaleY = canvas.height / rect.height;
-          
-          const x = (e.clientX - rect.left) * scaleX / dpr; 
-          const y = (e.clientY - rect.top) * scaleY / dpr;
-
-          const inverted = projection.invert([x, y]);
-          if (inverted) {
-            const clickedCountry = worldData.features.find((feature: any) => {
-              return d3.geoContains(feature, inverted);
-            });
-
-            if (clickedCountry) {
-              onCountrySelectRef.current(clickedCountry);
-            }
-          }
-        }
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointersRef.current.delete(e.pointerId)) return;
+      if (e.type === 'pointerup') updateHover(e); // Hover resumes where the drag ended
+
+      if (pointersRef.current.size > 0) {
+        // Pinch ended with a finger still down: keep rotating from that finger, no click
+        pinchDistanceRef.current = null;
+        const [remaining] = [...pointersRef.current.values()];
+        lastMouseRef.current = remaining;
+        return;
+      }
+
+      pinchDistanceRef.current = null;
+      if (!isDraggingRef.current) return;
+      isDraggingRef.current = false;
+      if (e.type === 'pointercancel' || wasPinchedRef.current) return;
+
+      const dist = Math.sqrt(
+        Math.pow(e.clientX - startDragRef.current.x, 2) + 
+        Math.pow(e.clientY - startDragRef.current.y, 2)
+      );
+
+      // Click detection
+      if (dist < CLICK_TOLERANCE_PX) {
+        const rect = canvas.getBoundingClientRect();
+        selectAt(e.clientX - rect.left, e.clientY - rect.top);
       }
     };
 
-    canvas.addEventListener('mousedown', handleMouseDown);
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUp);
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault(); // Keep the page from scrolling
+      takeControl();
+      const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      zoomVelocityRef.current -= pixels * WHEEL_ZOOM_SPEED;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.startsWith('Arrow')) {
+        takeControl();
+        keysRef.current.add(e.key);
+      } else if (e.key === '+' || e.key === '=') {
+        takeControl();
+        zoomVelocityRef.current += KEY_ZOOM_IMPULSE;
+      } else if (e.key === '-' || e.key === '_') {
+        takeControl();
+        zoomVelocityRef.current -= KEY_ZOOM_IMPULSE;
+      } else if (e.key === 'Enter') {
+        if (!e.repeat) selectAt(width / 2, height / 2);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      keysRef.current.delete(e.key);
+    };
+
+    const handleBlur = () => keysRef.current.clear();
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+    canvas.addEventListener('pointerleave', handlePointerLeave);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('keydown', handleKeyDown);
+    canvas.addEventListener('keyup', handleKeyUp);
+    canvas.addEventListener('blur', handleBlur);
 
     return () => {
       cancelAnimationFrame(animationId);
-      canvas.removeEventListener('mousedown', handleMouseDown);
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+      resizeObserver.disconnect();
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('keydown', handleKeyDown);
+      canvas.removeEventListener('keyup', handleKeyUp);
+      canvas.removeEventListener('blur', handleBlur);
+      pointersRef.current.clear();
+      pinchDistanceRef.current = null;
+      isDraggingRef.current = false;
     };
   }, [worldData]); 
 
@@ -479,13 +1095,91 @@ const HoloGlobe: React.FC<HoloGlobeProps> = ({ warState, onCountrySelect, isSimu
     <div ref={containerRef} className="w-full h-full flex items-center justify-center relative bg-transparent">
       <canvas 
         ref={canvasRef} 
-        className="cursor-crosshair active:cursor-grabbing w-full h-full block"
+        tabIndex={0}
+        aria-label="Globe: drag or arrow keys to rotate, wheel, pinch or +/- to zoom, Enter selects under the crosshair"
+        className={`${onLocationPick ? 'cursor-cell' : 'cursor-crosshair'} active:cursor-grabbing absolute inset-0 w-full h-full block touch-none focus:outline-none`}
       />
-      {!worldData && (
+      {/* Hover Tooltip */}
+      <div
+        ref={tooltipRef}
+        className={`absolute top-0 left-0 z-20 pointer-events-none ${hoveredCountry ? '' : 'hidden'}`}
+        style={{ width: TOOLTIP_WIDTH }}
+      >
+        {hoveredCountry && <CountryTooltip country={hoveredCountry} warState={warState} />}
+      </div>
+      {!worldData && !loadError && (
         <div className="absolute inset-0 flex items-center justify-center text-cyan-500 font-mono animate-pulse">
           INITIALIZING GLOBAL TOPOLOGY...
         </div>
       )}
+      {!worldData && loadError && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 font-mono">
+          <div className="text-orange-500 font-bold tracking-widest">TOPOLOGY LINK FAILURE</div>
+          <div className="text-xs text-slate-500 max-w-sm text-center">{loadError}</div>
+          <button
+            onClick={() => setLoadAttempt(attempt => attempt + 1)}
+            className="px-4 py-1 border border-cyan-500/50 text-cyan-300 text-xs tracking-wider hover:bg-cyan-500/20"
+          >
+            RETRY
+          </button>
+        </div>
+      )}
+
+      <div className="absolute top-4 right-4 z-20 flex flex-col items-end gap-1 font-mono text-[9px]">
+        {/* Map Detail Selector */}
+        <div className="flex items-center gap-1">
+          <span className={loadError && worldData ? 'text-orange-400' : 'text-slate-500'} title={loadError ?? undefined}>
+            MAP {loadedResolution?.toUpperCase() ?? '---'}{wantedResolution !== loadedResolution && !loadError ? ' ...' : ''}
+          </span>
+          {RESOLUTION_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setResolutionSetting(option)}
+              className={`px-1 border ${resolutionSetting === option ? 'bg-cyan-500 text-black border-cyan-500' : 'border-cyan-900/60 text-cyan-400 bg-black/50 hover:bg-cyan-500/10'}`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+          {loadError && worldData && (
+            <button onClick={() => setLoadAttempt(attempt => attempt + 1)} className="px-1 border border-orange-500/50 text-orange-400 bg-black/50 hover:bg-orange-500/20">
+              RETRY
+            </button>
+          )}
+        </div>
+        {/* Projection Selector */}
+        <div className="flex items-center gap-1">
+          <span className="text-slate-500">VIEW</span>
+          {PROJECTION_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setMapProjection(option)}
+              className={`px-1 border ${mapProjection === option ? 'bg-cyan-500 text-black border-cyan-500' : 'border-cyan-900/60 text-cyan-400 bg-black/50 hover:bg-cyan-500/10'}`}
+            >
+              {MAP_PROJECTION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        {/* Render Quality Selector */}
+        <div className="flex items-center gap-1">
+          <span ref={fpsRef} className="text-slate-500 w-12 text-right">-- FPS</span>
+          <span className="text-slate-500">FX</span>
+          {RENDER_QUALITY_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setQuality(option)}
+              className={`px-1 border ${quality === option ? 'bg-cyan-500 text-black border-cyan-500' : 'border-cyan-900/60 text-cyan-400 bg-black/50 hover:bg-cyan-500/10'}`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+      {replayWeek && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 pointer-events-none font-mono text-[10px] text-center border border-cyan-500/40 bg-black/60 px-3 py-1 max-w-md">
+          <div className="text-cyan-300 tracking-widest">REPLAY // WEEK {replayWeek.turn} // INTENSITY {Math.round(replayWeek.intensity * 100)}%</div>
+          <div className="text-slate-400">{replayWeek.summary}</div>
+        </div>
+      )}
       <div className="absolute bottom-4 left-1/2 -translate-x-1/2 text-cyan-500/50 text-xs font-mono tracking-[0.3em] pointer-events-none">
         GLOBAL CONFLICT SIMULATOR // ONLINE
       </div>
@@ -1,33 +1,18 @@
-import React, { useMemo } from 'react';
-import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, BarChart, Bar, XAxis, Tooltip, Cell, ReferenceLine } from 'recharts';
-import { WarState, CountryFeature } from '../types';
+import React, { useMemo, useSyncExternalStore } from 'react';
+import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, Cell, ReferenceLine, MouseHandlerDataParam } from 'recharts';
+import { WarState, BatchSummary, SimulationReport, TheatreTerrain, TimelinePoint, WarTimeline } from '../types';
+import { getCountryStats, getCountryStatsRevision, getPowerBalance, subscribeCountryStats } from '../services/countryStats';
+import { formatCasualties } from '../services/simulationReport';
 
 interface WarWidgetProps {
   warState: WarState;
 }
 
-// Helper to generate deterministic stats based on country name
-const getCountryStats = (name: string) => {
-  let h = 0;
-  for (let i = 0; i < name.length; i++) h = Math.imul(31, h) + name.charCodeAt(i) | 0;
-  const seed = Math.abs(h);
-  
-  return {
-    infantry: 40 + (seed % 60),
-    armor: 40 + ((seed >> 2) % 60),
-    air: 40 + ((seed >> 4) % 60),
-    cyber: 40 + ((seed >> 6) % 60),
-    logistics: 40 + ((seed >> 8) % 60),
-    intel: 40 + ((seed >> 10) % 60),
-    manpower: 50000 + (seed % 500000),
-    techLevel: 1 + (seed % 10) // 1-10
-  };
-};
-
 export const TacticalRadar: React.FC<WarWidgetProps> = ({ warState }) => {
+  const statsRevision = useSyncExternalStore(subscribeCountryStats, getCountryStatsRevision);
   const data = useMemo(() => {
-    const statsA = warState.aggressor ? getCountryStats(warState.aggressor.properties.name) : null;
-    const statsB = warState.defender ? getCountryStats(warState.defender.properties.name) : null;
+    const statsA = warState.aggressor ? getCountryStats(warState.aggressor) : null;
+    const statsB = warState.defender ? getCountryStats(warState.defender) : null;
 
     return [
       { subject: 'INFANTRY', A: statsA?.infantry || 0, B: statsB?.infantry || 0, fullMark: 100 },
@@ -37,7 +22,7 @@ export const TacticalRadar: React.FC<WarWidgetProps> = ({ warState }) => {
       { subject: 'LOGISTICS', A: statsA?.logistics || 0, B: statsB?.logistics || 0, fullMark: 100 },
       { subject: 'INTEL', A: statsA?.intel || 0, B: statsB?.intel || 0, fullMark: 100 },
     ];
-  }, [warState]);
+  }, [warState, statsRevision]);
 
   return (
     <div className="w-full h-48 relative">
@@ -90,15 +75,19 @@ export const TacticalRadar: React.FC<WarWidgetProps> = ({ warState }) => {
   );
 };
 
-export const WarStats: React.FC<WarWidgetProps> = ({ warState }) => {
-  const statsA = warState.aggressor ? getCountryStats(warState.aggressor.properties.name) : null;
-  const statsB = warState.defender ? getCountryStats(warState.defender.properties.name) : null;
+interface WarStatsProps extends WarWidgetProps {
+  report?: SimulationReport | null; // Last simulation result for this matchup
+  terrain?: TheatreTerrain; // From the border graph; weights the balance
+}
+
+export const WarStats: React.FC<WarStatsProps> = ({ warState, report = null, terrain }) => {
+  useSyncExternalStore(subscribeCountryStats, getCountryStatsRevision); // Re-render on dataset import
+  const statsA = warState.aggressor ? getCountryStats(warState.aggressor) : null;
+  const statsB = warState.defender ? getCountryStats(warState.defender) : null;
   
-  // Calculate relative power
-  const powerA = statsA ? (statsA.infantry + statsA.armor + statsA.air + statsA.techLevel * 10) : 0;
-  const powerB = statsB ? (statsB.infantry + statsB.armor + statsB.air + statsB.techLevel * 10) : 0;
-  const totalPower = powerA + powerB;
-  const percentA = totalPower > 0 ? (powerA / totalPower) * 100 : 50;
+  // Relative power, using the same balance the simulation rolls against (allies included)
+  const balance = getPowerBalance({ ...warState, terrain });
+  const percentA = balance.chanceA * 100;
 
   if (!warState.aggressor && !warState.defender) {
       return (
@@ -121,6 +110,11 @@ export const WarStats: React.FC<WarWidgetProps> = ({ warState }) => {
                     <div style={{ width: `${percentA}%` }} className="bg-cyan-500 shadow-[0_0_10px_#06b6d4]"></div>
                     <div className="flex-1 bg-orange-500 shadow-[0_0_10px_#f97316]"></div>
                 </div>
+                {terrain && (
+                    <div className="text-[9px] text-slate-500 mt-1">
+                        THEATRE: {terrain.kind === 'LAND' ? `LAND FRONT ${terrain.frontKm.toLocaleString('en-US')} KM // ARMOR + INFANTRY` : 'OVERSEAS // AIR + LOGISTICS'}
+                    </div>
+                )}
             </div>
         )}
 
@@ -145,32 +139,176 @@ export const WarStats: React.FC<WarWidgetProps> = ({ warState }) => {
              <div className="text-center font-bold text-cyan-100">{statsA ? statsA.cyber + '%' : '-'}</div>
             <div className="text-center text-slate-500 text-[9px] uppercase tracking-wider">NetSec</div>
             <div className="text-center font-bold text-orange-100">{statsB ? statsB.cyber + '%' : '-'}</div>
+
+            {/* Casualties from the last simulation */}
+            {report && (
+              <>
+                <div className="text-center font-bold text-cyan-100">{formatCasualties(report.casualties.aggressor)}</div>
+                <div className="text-center text-slate-500 text-[9px] uppercase tracking-wider">KIA/WIA</div>
+                <div className="text-center font-bold text-orange-100">{formatCasualties(report.casualties.defender)}</div>
+              </>
+            )}
         </div>
+
+        {report && (
+            <div className="text-[9px] text-center border border-yellow-500/30 bg-yellow-500/5 py-1 text-yellow-300 tracking-wider">
+                LAST SIM: {report.winner.toUpperCase()} PREVAILS ({report.confidence}% CONF.)
+            </div>
+        )}
     </div>
   );
 }
 
-// Keeping IntensityChart generic but styled
-export const IntensityChart: React.FC = () => {
-    // Generate some random looking waveform
-  const data = useMemo(() => {
-      return Array.from({length: 20}, (_, i) => ({
-          name: i.toString(),
-          value: Math.floor(Math.random() * 50) + 20
-      }))
-  }, [])
+interface OutcomeDistributionProps {
+  summary: BatchSummary | null;
+  isRunning: boolean;
+}
+
+const HistogramRows: React.FC<{ counts: Record<string, number>; total: number; color: string }> = ({ counts, total, color }) => (
+  <div className="flex flex-col gap-0.5">
+    {Object.entries<number>(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([label, count]) => (
+        <div key={label} className="flex items-center gap-1 text-[9px]">
+          <span className="w-28 truncate text-slate-400" title={label}>{label}</span>
+          <div className="flex-1 h-1.5 bg-slate-800">
+            <div style={{ width: `${(count / total) * 100}%` }} className={color}></div>
+          </div>
+          <span className="w-8 text-right text-slate-500">{((count / total) * 100).toFixed(0)}%</span>
+        </div>
+      ))}
+  </div>
+);
+
+// Monte Carlo batch results: win probability with 95% CI, outcome histograms, expected duration
+export const OutcomeDistribution: React.FC<OutcomeDistributionProps> = ({ summary, isRunning }) => {
+  if (isRunning) {
+    return (
+      <div className="mt-3 border-t border-cyan-900/30 pt-2 text-[10px] text-cyan-500 font-mono animate-pulse">
+        MONTE CARLO BATCH IN PROGRESS...
+      </div>
+    );
+  }
+  if (!summary) return null;
+
+  const [low, high] = summary.confidenceInterval;
+  const percent = summary.winProbability * 100;
 
   return (
-    <div className="w-full h-24 relative mt-2 border-t border-cyan-900/30 pt-2">
-      <div className="absolute top-2 left-0 text-[9px] text-slate-500 font-mono tracking-widest">SIGNAL_NOISE_RATIO</div>
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={data} barGap={1}>
-          <Tooltip cursor={{fill: 'transparent'}} content={() => null} />
-          <Bar dataKey="value" fill="#1e293b" />
-          {/* Overlay line trend manually via bars for retro look */}
-          <Bar dataKey="value" fill="#0e7490" className="opacity-50" />
-        </BarChart>
-      </ResponsiveContainer>
+    <div className="mt-3 border-t border-cyan-900/30 pt-2 font-mono flex flex-col gap-2">
+      <div className="flex justify-between text-[9px] text-slate-400">
+        <span>OUTCOME DISTRIBUTION // {summary.runs}x</span>
+        <span className="text-slate-600">{summary.elapsedMs.toFixed(0)}ms</span>
+      </div>
+
+      {/* Win probability with confidence band */}
+      <div>
+        <div className="flex justify-between text-[9px] mb-1">
+          <span className="text-cyan-400">{summary.aggressor.substring(0, 10).toUpperCase()} WIN {percent.toFixed(1)}%</span>
+          <span className="text-slate-500">95% CI {(low * 100).toFixed(1)}-{(high * 100).toFixed(1)}%</span>
+        </div>
+        <div className="relative h-2 w-full bg-orange-500/60 border border-slate-700">
+          <div style={{ width: `${percent}%` }} className="h-full bg-cyan-500"></div>
+          <div
+            style={{ left: `${low * 100}%`, width: `${Math.max(0.5, (high - low) * 100)}%` }}
+            className="absolute top-0 h-full border-x border-white/80 bg-white/20"
+          ></div>
+        </div>
+      </div>
+
+      <div className="text-[9px] text-slate-400">
+        AVG. DURATION: <span className="text-cyan-100">{summary.averageDurationWeeks.toFixed(1)} WEEKS</span>
+      </div>
+
+      <div>
+        <div className="text-[9px] text-slate-500 mb-0.5">BATTLE TYPES</div>
+        <HistogramRows counts={summary.battleTypes} total={summary.runs} color="h-full bg-red-500/70" />
+      </div>
+      <div>
+        <div className="text-[9px] text-slate-500 mb-0.5">EXTERNAL EVENTS</div>
+        <HistogramRows counts={summary.externalEvents} total={summary.runs} color="h-full bg-cyan-600/70" />
+      </div>
+    </div>
+  );
+};
+
+interface BattleTimelineProps {
+  timeline: WarTimeline | null;   // Most recent simulation or campaign
+  cursorTurn: number | null;      // Week shown on the globe
+  isReplaying: boolean;
+  onCursorChange: (turn: number | null) => void;
+  onReplayToggle: () => void;
+}
+
+const TimelineTooltip: React.FC<{ active?: boolean; payload?: { payload: TimelinePoint }[] }> = ({ active, payload }) => {
+  const point = active ? payload?.[0]?.payload : null;
+  if (!point) return null;
+  return (
+    <div className="bg-black/90 border border-cyan-900/60 px-2 py-1 font-mono text-[9px] leading-tight">
+      <div className="text-slate-300">WEEK {point.turn}</div>
+      <div className="text-red-400">INTENSITY {Math.round(point.intensity * 100)}%</div>
+      <div className="text-cyan-400">LOSSES A {formatCasualties(point.aggressorCasualties)}</div>
+      <div className="text-orange-400">LOSSES B {formatCasualties(point.defenderCasualties)}</div>
+      <div className="text-yellow-300">GROUND {point.control >= 0 ? '+' : ''}{point.control.toFixed(1)}% A</div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Week-by-week record of the latest war: intensity bars, cumulative losses per side and the ground line
+export const BattleTimeline: React.FC<BattleTimelineProps> = ({ timeline, cursorTurn, isReplaying, onCursorChange, onReplayToggle }) => {
+  const data = timeline?.points ?? [];
+
+  if (!timeline || data.length === 0) {
+    return (
+      <div className="w-full h-full min-h-24 mt-2 border-t border-cyan-900/30 pt-2 flex flex-col font-mono">
+        <div className="text-[9px] text-slate-500 tracking-widest">BATTLE TIMELINE</div>
+        <div className="flex-1 flex items-center justify-center text-[10px] text-slate-600">
+          {timeline ? 'CAMPAIGN OPENED // AWAITING FIRST WEEK' : 'NO SIMULATION DATA // SIMULATE OR START A CAMPAIGN'}
+        </div>
+      </div>
+    );
+  }
+
+  // Hovering scrubs the globe; a running replay owns the cursor
+  const handleMouseMove = (state: MouseHandlerDataParam) => {
+    if (isReplaying) return;
+    onCursorChange(state.activeLabel === undefined ? null : Number(state.activeLabel));
+  };
+
+  return (
+    <div className="w-full h-full min-h-24 mt-2 border-t border-cyan-900/30 pt-2 flex flex-col font-mono">
+      <div className="flex justify-between items-center text-[9px] text-slate-500 tracking-widest">
+        <span>{timeline.source === 'CAMPAIGN' ? 'CAMPAIGN' : 'SIM'} // {timeline.aggressor.substring(0, 10).toUpperCase()} VS {timeline.defender.substring(0, 10).toUpperCase()}</span>
+        <button
+          onClick={onReplayToggle}
+          className={`px-1 border ${isReplaying ? 'bg-cyan-500 text-black border-cyan-500' : 'border-cyan-900/60 text-cyan-400 hover:bg-cyan-500/10'}`}
+        >
+          {isReplaying ? `WEEK ${cursorTurn ?? 1} [STOP]` : 'REPLAY'}
+        </button>
+      </div>
+      <div className="flex-1 min-h-20">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} barGap={1} onMouseMove={handleMouseMove} onMouseLeave={() => { if (!isReplaying) onCursorChange(null); }}>
+            <XAxis dataKey="turn" hide />
+            <YAxis yAxisId="intensity" domain={[0, 1]} hide />
+            <YAxis yAxisId="casualties" hide />
+            <YAxis yAxisId="control" domain={[-100, 100]} hide />
+            <Tooltip cursor={{ fill: 'rgba(6, 182, 212, 0.08)' }} content={<TimelineTooltip />} isAnimationActive={false} />
+            <ReferenceLine yAxisId="control" y={0} stroke="#334155" strokeDasharray="2 2" />
+            <Bar yAxisId="intensity" dataKey="intensity" fill="#7f1d1d" isAnimationActive={false} />
+            <Line yAxisId="casualties" dataKey="aggressorCasualties" stroke="#06b6d4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line yAxisId="casualties" dataKey="defenderCasualties" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line yAxisId="control" dataKey="control" stroke="#facc15" strokeWidth={1.5} strokeDasharray="3 2" dot={false} isAnimationActive={false} />
+            {cursorTurn !== null && <ReferenceLine yAxisId="intensity" x={cursorTurn} stroke="#ffffff" strokeWidth={1} />}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex gap-2 text-[8px] text-slate-500">
+        <span><span className="text-red-700">■</span> INTENSITY</span>
+        <span><span className="text-cyan-400">—</span> A LOSSES</span>
+        <span><span className="text-orange-400">—</span> B LOSSES</span>
+        <span><span className="text-yellow-300">- -</span> GROUND</span>
+      </div>
+    </div>
+  );
+};
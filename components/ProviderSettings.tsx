@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  AiProviderId,
+  PROVIDER_LABELS,
+  ProviderSettings as ProviderSettingsValues,
+  getActiveProviderId,
+  getProviderSettings
+} from '../services/aiProviders';
+
+interface ProviderSettingsProps {
+  onApply: (id: AiProviderId, settings: ProviderSettingsValues) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_IDS: AiProviderId[] = ['gemini', 'local', 'offline'];
+
+const PROVIDER_HINTS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini API. Leave the key empty to use GEMINI_API_KEY from .env.local.',
+  local: 'Any OpenAI-compatible server (/chat/completions, /images/generations).',
+  offline: 'No network calls. All reports come from the procedural engine.'
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-0.5">
+    <span className="text-[9px] text-slate-500 tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const inputClass = 'bg-black/40 border border-cyan-900/50 px-2 py-1 text-xs text-cyan-100 focus:outline-none focus:border-cyan-500';
+
+// Drop-down panel for choosing the AI backend and its per-provider model/parameters
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onApply, onClose }) => {
+  const [providerId, setProviderId] = useState<AiProviderId>(getActiveProviderId());
+  const [drafts, setDrafts] = useState<Record<AiProviderId, ProviderSettingsValues>>(() => ({
+    gemini: getProviderSettings('gemini'),
+    local: getProviderSettings('local'),
+    offline: getProviderSettings('offline')
+  }));
+
+  const draft = drafts[providerId];
+  const update = (patch: Partial<ProviderSettingsValues>) => {
+    setDrafts(prev => ({ ...prev, [providerId]: { ...prev[providerId], ...patch } }));
+  };
+  const parseOptional = (value: string) => value.trim() === '' ? null : Number(value);
+
+  return (
+    <div className="absolute right-6 top-16 z-50 w-80 bg-slate-950/95 border border-cyan-500/40 shadow-[0_0_30px_rgba(6,182,212,0.2)] p-4 font-mono flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-cyan-400 tracking-widest">AI LINK CONFIGURATION</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white text-xs">[X]</button>
+      </div>
+
+      <div className="flex gap-1">
+        {PROVIDER_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => setProviderId(id)}
+            className={`flex-1 py-1 text-[10px] border ${providerId === id ? 'bg-cyan-500 text-black border-cyan-500' : 'border-cyan-900/60 text-cyan-400 hover:bg-cyan-500/10'}`}
+          >
+            {PROVIDER_LABELS[id]}
+          </button>
+        ))}
+      </div>
+      <div className="text-[10px] text-slate-500">{PROVIDER_HINTS[providerId]}</div>
+
+      {providerId !== 'offline' && (
+        <>
+          {providerId === 'local' && (
+            <Field label="BASE URL">
+              <input className={inputClass} value={draft.baseUrl} onChange={e => update({ baseUrl: e.target.value })} />
+            </Field>
+          )}
+          <Field label="TEXT MODEL">
+            <input className={inputClass} value={draft.model} onChange={e => update({ model: e.target.value })} />
+          </Field>
+          <Field label="IMAGE MODEL">
+            <input className={inputClass} value={draft.imageModel} placeholder="(disabled)" onChange={e => update({ imageModel: e.target.value })} />
+          </Field>
+          <Field label="API KEY">
+            <input className={inputClass} type="password" value={draft.apiKey} placeholder="(optional)" onChange={e => update({ apiKey: e.target.value })} />
+          </Field>
+          <div className="flex gap-2">
+            <Field label="TEMPERATURE">
+              <input
+                className={`${inputClass} w-full`}
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.temperature ?? ''}
+                placeholder="default"
+                onChange={e => update({ temperature: parseOptional(e.target.value) })}
+              />
+            </Field>
+            <Field label="MAX TOKENS">
+              <input
+                className={`${inputClass} w-full`}
+                type="number"
+                min={1}
+                step={50}
+                value={draft.maxOutputTokens ?? ''}
+                placeholder="default"
+                onChange={e => update({ maxOutputTokens: parseOptional(e.target.value) })}
+              />
+            </Field>
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={() => onApply(providerId, draft)}
+        className="w-full py-2 bg-cyan-900/30 hover:bg-cyan-500/20 border border-cyan-500/50 text-cyan-300 text-xs uppercase tracking-wider"
+      >
+        Apply &amp; Connect
+      </button>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { SavedScenario } from '../types';
+import { formatSeed } from '../services/simulationEngine';
+
+interface ScenarioPanelProps {
+  scenarios: SavedScenario[];
+  canSave: boolean; // At least one faction selected
+  onSave: (name: string) => void;
+  onLoad: (scenario: SavedScenario) => void;
+  onDelete: (name: string) => void;
+  onShare: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-black/40 border border-cyan-900/50 px-2 py-1 text-xs text-cyan-100 focus:outline-none focus:border-cyan-500';
+
+// Drop-down panel listing saved scenarios, with save-as and share-link actions
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenarios, canSave, onSave, onLoad, onDelete, onShare, onClose }) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="absolute right-6 top-16 z-50 w-80 bg-slate-950/95 border border-cyan-500/40 shadow-[0_0_30px_rgba(6,182,212,0.2)] p-4 font-mono flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-cyan-400 tracking-widest">SCENARIO ARCHIVE</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white text-xs">[X]</button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          className={inputClass}
+          value={name}
+          placeholder="Scenario name"
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && save()}
+        />
+        <button
+          onClick={save}
+          disabled={!canSave || !name.trim()}
+          className="px-2 text-[10px] border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 disabled:opacity-40"
+        >
+          SAVE
+        </button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto flex flex-col gap-1">
+        {scenarios.length === 0 && <div className="text-[10px] text-slate-600">No saved scenarios.</div>}
+        {scenarios.map(scenario => (
+          <div key={scenario.name} className="border border-cyan-900/40 bg-black/30 p-2 text-[10px] flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-cyan-100 truncate">{scenario.name}</div>
+              <div className="text-slate-500">
+                {new Date(scenario.savedAt).toLocaleString()}
+                {scenario.reports.length > 0 && ` // ${scenario.reports.length} REPORT${scenario.reports.length > 1 ? 'S' : ''}`}
+                {scenario.seed !== null && ` // ${formatSeed(scenario.seed)}`}
+              </div>
+            </div>
+            <button onClick={() => onLoad(scenario)} className="px-1 border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20">LOAD</button>
+            <button onClick={() => onDelete(scenario.name)} className="px-1 border border-red-500/40 text-red-400 hover:bg-red-500/20">DEL</button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onShare}
+        disabled={!canSave}
+        className="w-full py-2 bg-cyan-900/30 hover:bg-cyan-500/20 border border-cyan-500/50 text-cyan-300 text-xs uppercase tracking-wider disabled:opacity-40"
+      >
+        Copy Share Link
+      </button>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ConflictZone } from '../types';
+import { CIVILIAN_DENSITY_LEVELS, THREAT_LEVEL_COLORS } from '../constants';
+import { ZoneEdit } from '../services/zoneStore';
+import { getBaselineTension, getZoneTension } from '../services/zoneIntel';
+
+interface ZoneDossierProps {
+  zone: ConflictZone;
+  isSitrepLoading: boolean;
+  onRequestSitrep: () => void;
+  onEdit: (edit: ZoneEdit) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <span className="text-slate-500">{label}</span>
+    <span className="text-slate-200 text-right">{children}</span>
+  </>
+);
+
+const inputClass = 'w-full bg-black/60 border border-cyan-900/60 px-1 py-0.5 text-cyan-100 focus:outline-none focus:border-cyan-500';
+
+// Current tension with a tick at the authored baseline the zone relaxes back to
+const TensionBar: React.FC<{ zone: ConflictZone; color: string }> = ({ zone, color }) => (
+  <div className="relative h-1.5 bg-slate-800" title={`Tension ${Math.round(getZoneTension(zone))}/100`}>
+    <div className="absolute inset-y-0 left-0 transition-all duration-700" style={{ width: `${getZoneTension(zone)}%`, backgroundColor: color }} />
+    <div className="absolute -inset-y-0.5 w-px bg-white/70" style={{ left: `${getBaselineTension(zone)}%` }} />
+  </div>
+);
+
+// Intel card for the selected conflict zone; the SITREP itself streams into the terminal
+const ZoneDossier: React.FC<ZoneDossierProps> = ({ zone, isSitrepLoading, onRequestSitrep, onEdit, onDelete, onClose }) => {
+  const color = THREAT_LEVEL_COLORS[zone.threatLevel];
+  const [draft, setDraft] = useState<Required<ZoneEdit> | null>(null); // Non-null while editing
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const startEditing = () => setDraft({
+    name: zone.name,
+    activeUnits: zone.activeUnits,
+    civilianDensity: zone.civilianDensity,
+    intelSummary: zone.intelSummary
+  });
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onEdit({ ...draft, name: draft.name.trim(), intelSummary: draft.intelSummary.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="absolute top-12 right-4 z-30 w-64 bg-slate-950/90 border border-cyan-900/60 backdrop-blur-sm font-mono text-[10px] shadow-[0_0_20px_rgba(0,0,0,0.5)]">
+      <div className="h-0.5" style={{ backgroundColor: color }} />
+      <div className="p-3 flex flex-col gap-2">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="text-slate-500 tracking-widest">ZONE DOSSIER // {zone.id.toUpperCase()}</div>
+            <div className="text-sm text-white font-bold">{zone.name}</div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">[X]</button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="font-bold tracking-widest" style={{ color }}>THREAT: {zone.threatLevel}</div>
+          <TensionBar zone={zone} color={color} />
+        </div>
+
+        {draft ? (
+          <form onSubmit={saveDraft} className="flex flex-col gap-1.5">
+            <label className="text-slate-500">NAME
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} autoFocus />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-slate-500">ACTIVE UNITS
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.activeUnits}
+                  onChange={e => setDraft({ ...draft, activeUnits: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-slate-500">CIVILIANS
+                <select value={draft.civilianDensity} onChange={e => setDraft({ ...draft, civilianDensity: e.target.value })} className={inputClass}>
+                  {/* Keep a legacy free-text value selectable */}
+                  {[...new Set([...CIVILIAN_DENSITY_LEVELS, draft.civilianDensity])].map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </label>
+            </div>
+            <label className="text-slate-500">INTEL SUMMARY
+              <textarea rows={3} value={draft.intelSummary} onChange={e => setDraft({ ...draft, intelSummary: e.target.value })} className={`${inputClass} resize-none`} />
+            </label>
+            <div className="flex gap-2">
+              <button type="submit" disabled={!draft.name.trim()} className="flex-1 py-1 border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 disabled:opacity-50">SAVE</button>
+              <button type="button" onClick={() => setDraft(null)} className="flex-1 py-1 border border-slate-600 text-slate-400 hover:bg-slate-700/40">CANCEL</button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-y-0.5">
+              <Row label="COORDINATES">{zone.coordinates.lat.toFixed(2)}, {zone.coordinates.lng.toFixed(2)}</Row>
+              <Row label="ACTIVE UNITS">{zone.activeUnits.toLocaleString('en-US')}</Row>
+              <Row label="CIVILIAN DENSITY">{zone.civilianDensity.toUpperCase()}</Row>
+            </div>
+
+            <div className="border-t border-cyan-900/40 pt-2">
+              <div className="text-slate-500 mb-0.5">CURRENT INTEL:</div>
+              <div className="text-cyan-100 leading-relaxed">{zone.intelSummary}</div>
+            </div>
+
+            <button
+              onClick={onRequestSitrep}
+              disabled={isSitrepLoading}
+              className="w-full py-1.5 border border-cyan-500/50 text-cyan-300 uppercase tracking-wider hover:bg-cyan-500/20 disabled:opacity-50"
+            >
+              {isSitrepLoading ? 'RECEIVING SITREP...' : 'REQUEST SITREP'}
+            </button>
+            <div className="flex gap-2">
+              <button onClick={startEditing} className="flex-1 py-1 border border-slate-600 text-slate-300 hover:bg-slate-700/40">EDIT</button>
+              {isConfirmingDelete ? (
+                <button onClick={onDelete} onBlur={() => setIsConfirmingDelete(false)} autoFocus className="flex-1 py-1 bg-red-600 text-black font-bold">CONFIRM DELETE</button>
+              ) : (
+                <button onClick={() => setIsConfirmingDelete(true)} className="flex-1 py-1 border border-red-500/40 text-red-400 hover:bg-red-500/20">DELETE</button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ZoneDossier;
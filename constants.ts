@@ -1,4 +1,4 @@
-import { ConflictZone, ThreatLevel } from './types';
+import { ConflictZone, CountryRole, ThreatLevel } from './types';
 
 export const CONFLICT_ZONES: ConflictZone[] = [
   {
@@ -48,6 +48,27 @@ export const CONFLICT_ZONES: ConflictZone[] = [
   }
 ];
 
+export const CIVILIAN_DENSITY_LEVELS = ['None', 'Low', 'Moderate', 'High', 'Extreme'];
+
+// Mean radius; converts d3 great-circle angles (radians) to km
+export const EARTH_RADIUS_KM = 6371;
+
+// Marker / dossier accent per threat level
+export const THREAT_LEVEL_COLORS: Record<ThreatLevel, string> = {
+  [ThreatLevel.LOW]: '#22c55e',
+  [ThreatLevel.MODERATE]: '#eab308',
+  [ThreatLevel.HIGH]: '#f97316',
+  [ThreatLevel.CRITICAL]: '#ef4444'
+};
+
+// Matches the faction fills on the globe
+export const COUNTRY_ROLE_STYLES: Record<CountryRole, { label: string; color: string }> = {
+  AGGRESSOR: { label: 'FACTION A', color: '#fb923c' },
+  DEFENDER: { label: 'FACTION B', color: '#22d3ee' },
+  AGGRESSOR_ALLY: { label: 'ALLY A', color: '#f87171' },
+  DEFENDER_ALLY: { label: 'ALLY B', color: '#60a5fa' }
+};
+
 export const INITIAL_LOGS = [
   { id: '1', timestamp: '08:00:01', message: 'AEGIS System initialized.', type: 'INFO' as const },
   { id: '2', timestamp: '08:00:05', message: 'Global satellite link established.', type: 'INFO' as const },
@@ -0,0 +1,272 @@
+import { GoogleGenAI } from "@google/genai";
+import { readJson, writeJson } from "./storage";
+
+// --- AI PROVIDER LAYER ---
+// Text and image generation behind one interface, so the simulator can run
+// against Gemini, a local OpenAI-compatible server, or fully offline.
+
+export type AiProviderId = 'gemini' | 'local' | 'offline';
+
+export interface TextGenerationRequest {
+  prompt: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  responseSchema?: object; // Gemini-style schema (Type.OBJECT, ...); converted for other providers
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  // Same as generateText, but reports each delta as it arrives. Resolves with the full text.
+  streamText: (request: TextGenerationRequest, onChunk: (delta: string) => void) => Promise<string>;
+  generateImage: (prompt: string) => Promise<string | null>; // data: URL
+}
+
+export interface ProviderSettings {
+  model: string;
+  imageModel: string;
+  baseUrl: string;         // Local provider only
+  apiKey: string;          // Optional for local servers; Gemini falls back to the build-time key
+  temperature: number | null;     // Overrides the per-call default when set
+  maxOutputTokens: number | null; // Overrides the per-call default when set
+}
+
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+export const PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'GEMINI',
+  local: 'LOCAL HTTP',
+  offline: 'OFFLINE'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: Record<AiProviderId, ProviderSettings> = {
+  gemini: { model: 'gemini-2.5-flash', imageModel: 'gemini-2.5-flash-image', baseUrl: '', apiKey: '', temperature: null, maxOutputTokens: null },
+  local: { model: 'llama3.1', imageModel: '', baseUrl: 'http://localhost:11434/v1', apiKey: '', temperature: null, maxOutputTokens: null },
+  offline: { model: 'procedural', imageModel: '', baseUrl: '', apiKey: '', temperature: null, maxOutputTokens: null }
+};
+
+const applyOverrides = (request: TextGenerationRequest, settings: ProviderSettings) => ({
+  temperature: settings.temperature ?? request.temperature,
+  maxOutputTokens: settings.maxOutputTokens ?? request.maxOutputTokens
+});
+
+// --- GEMINI ---
+
+const createGeminiProvider = (settings: ProviderSettings): AiProvider => {
+  let client: GoogleGenAI | null = null;
+  // Created on first use: constructing without a key throws, which must not break offline use
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    return client;
+  };
+  const buildParams = (request: TextGenerationRequest) => ({
+    model: settings.model,
+    contents: request.prompt,
+    config: {
+      ...applyOverrides(request, settings),
+      ...(request.responseSchema ? { responseMimeType: 'application/json', responseSchema: request.responseSchema } : {})
+    }
+  });
+
+  return {
+    id: 'gemini',
+    label: PROVIDER_LABELS.gemini,
+    generateText: async (request) => {
+      const response = await getClient().models.generateContent(buildParams(request));
+      if (!response.text) throw new Error("Empty response from AI");
+      return response.text;
+    },
+    streamText: async (request, onChunk) => {
+      const stream = await getClient().models.generateContentStream(buildParams(request));
+      let text = '';
+      for await (const chunk of stream) {
+        const delta = chunk.text;
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+      }
+      if (!text) throw new Error("Empty response from AI");
+      return text;
+    },
+    generateImage: async (prompt) => {
+      const response = await getClient().models.generateContent({
+        model: settings.imageModel,
+        contents: {
+          parts: [{ text: prompt }]
+        }
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    }
+  };
+};
+
+// --- LOCAL HTTP (OpenAI-compatible: llama.cpp, Ollama, vLLM, LM Studio...) ---
+
+// Gemini schemas use upper-case type names and a Gemini-only propertyOrdering key
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const result: Record<string, unknown> = {};
+  Object.entries(schema as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'propertyOrdering') return;
+    result[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+  });
+  return result;
+};
+
+const createLocalProvider = (settings: ProviderSettings): AiProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+  };
+
+  const requestCompletion = (request: TextGenerationRequest, stream: boolean) => {
+    const { temperature, maxOutputTokens } = applyOverrides(request, settings);
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream,
+        ...(request.responseSchema ? {
+          response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } }
+        } : {})
+      })
+    });
+  };
+
+  return {
+    id: 'local',
+    label: PROVIDER_LABELS.local,
+    generateText: async (request) => {
+      const response = await requestCompletion(request, false);
+      if (!response.ok) throw new Error(`Local model server returned HTTP ${response.status}`);
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("Empty response from local model");
+      return text;
+    },
+    streamText: async (request, onChunk) => {
+      const response = await requestCompletion(request, true);
+      if (!response.ok || !response.body) throw new Error(`Local model server returned HTTP ${response.status}`);
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onChunk(delta);
+          }
+        }
+      }
+      if (!text) throw new Error("Empty response from local model");
+      return text;
+    },
+    generateImage: async (prompt) => {
+      if (!settings.imageModel) return null;
+      const response = await fetch(`${baseUrl}/images/generations`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: settings.imageModel, prompt, response_format: 'b64_json', n: 1 })
+      });
+      if (!response.ok) throw new Error(`Local image server returned HTTP ${response.status}`);
+      const data = await response.json();
+      const b64 = data?.data?.[0]?.b64_json;
+      return b64 ? `data:image/png;base64,${b64}` : null;
+    }
+  };
+};
+
+// --- OFFLINE (air-gapped: every caller falls through to its procedural generator) ---
+
+const offlineProvider: AiProvider = {
+  id: 'offline',
+  label: PROVIDER_LABELS.offline,
+  generateText: async () => {
+    throw new ProviderUnavailableError("Offline mode: AI link disabled");
+  },
+  streamText: async () => {
+    throw new ProviderUnavailableError("Offline mode: AI link disabled");
+  },
+  generateImage: async () => null
+};
+
+// --- REGISTRY ---
+
+const STORAGE_KEY = 'aegis.aiProvider';
+
+interface StoredProviderConfig {
+  active: AiProviderId;
+  settings: Record<AiProviderId, ProviderSettings>;
+}
+
+const loadConfig = (): StoredProviderConfig => {
+  const fallback: StoredProviderConfig = { active: 'gemini', settings: { ...DEFAULT_PROVIDER_SETTINGS } };
+  const parsed = readJson<Partial<StoredProviderConfig> | null>(STORAGE_KEY, null) || {};
+  const active = parsed.active && parsed.active in PROVIDER_LABELS ? parsed.active : fallback.active;
+  const settings = { ...fallback.settings };
+  (Object.keys(settings) as AiProviderId[]).forEach(id => {
+    settings[id] = { ...settings[id], ...(parsed.settings?.[id] || {}) };
+  });
+  return { active, settings };
+};
+
+let config = loadConfig();
+let activeProvider: AiProvider | null = null;
+
+const buildProvider = (id: AiProviderId): AiProvider => {
+  switch (id) {
+    case 'gemini': return createGeminiProvider(config.settings.gemini);
+    case 'local': return createLocalProvider(config.settings.local);
+    default: return offlineProvider;
+  }
+};
+
+const saveConfig = () => writeJson(STORAGE_KEY, config);
+
+export const getActiveProvider = (): AiProvider => {
+  if (!activeProvider) activeProvider = buildProvider(config.active);
+  return activeProvider;
+};
+
+export const getActiveProviderId = (): AiProviderId => config.active;
+
+export const getProviderSettings = (id: AiProviderId): ProviderSettings => config.settings[id];
+
+export const setActiveProvider = (id: AiProviderId, settings?: ProviderSettings) => {
+  config = {
+    active: id,
+    settings: settings ? { ...config.settings, [id]: settings } : config.settings
+  };
+  activeProvider = null; // Rebuilt lazily with the new settings
+  saveConfig();
+};
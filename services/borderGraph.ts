@@ -0,0 +1,116 @@
+import { geoLength } from "d3";
+import * as topojson from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import { CountryFeature, TheatreTerrain, WarState } from "../types";
+import { EARTH_RADIUS_KM } from "../constants";
+
+// --- LAND BORDER GRAPH ---
+// TopoJSON stores each border once, as an arc shared by the two countries on
+// either side. Countries sharing an arc are land neighbors; an arc used by a
+// single country is coastline.
+
+export interface SharedBorder {
+  lengthKm: number;
+  lines: [number, number][][]; // [lng, lat] segments, for drawing
+}
+
+export interface CountryBorders {
+  neighbors: Map<string | number, SharedBorder>; // Keyed by feature id
+  borderKm: number; // Total land border
+  coastal: boolean;
+}
+
+export type BorderGraph = Map<string | number, CountryBorders>;
+
+export type CountriesTopology = Topology<{ countries: GeometryCollection }>;
+
+// Arc index, or nested lists of them (LineString, Polygon, MultiPolygon)
+type ArcTree = number | ArcTree[];
+
+// Arc indices of a Polygon / MultiPolygon (negative indices are reversed arcs)
+const collectArcs = (arcs: ArcTree, into: number[]) => {
+  if (typeof arcs === 'number') into.push(arcs < 0 ? ~arcs : arcs);
+  else if (Array.isArray(arcs)) arcs.forEach(child => collectArcs(child, into));
+  return into;
+};
+
+/** Builds the graph; `features` are the topology's countries in geometry order (as loadCountries returns them). */
+export const buildBorderGraph = (topology: CountriesTopology, features: CountryFeature[]): BorderGraph => {
+  const arcUsers = new Map<number, Set<number>>();
+  topology.objects.countries.geometries.forEach((geometry, index) => {
+    if (!('arcs' in geometry)) return; // Null geometry
+    collectArcs(geometry.arcs, []).forEach(arc => {
+      const users = arcUsers.get(arc);
+      if (users) users.add(index); else arcUsers.set(arc, new Set([index]));
+    });
+  });
+
+  const graph: BorderGraph = new Map();
+  features.forEach(feature => graph.set(feature.id, { neighbors: new Map(), borderKm: 0, coastal: false }));
+
+  const addBorder = (country: CountryFeature, neighbor: CountryFeature, line: [number, number][], lengthKm: number) => {
+    const borders = graph.get(country.id)!;
+    const shared = borders.neighbors.get(neighbor.id);
+    if (shared) {
+      shared.lengthKm += lengthKm;
+      shared.lines.push(line);
+    } else {
+      borders.neighbors.set(neighbor.id, { lengthKm, lines: [line] });
+    }
+    borders.borderKm += lengthKm;
+  };
+
+  arcUsers.forEach((users, arc) => {
+    const [a, b] = [...users].map(index => features[index]);
+    if (users.size === 1) {
+      graph.get(a.id)!.coastal = true;
+      return;
+    }
+    if (users.size !== 2) return; // Not produced by world-atlas; nothing sensible to record
+    // Delta-decode the quantized arc into [lng, lat]; a false index restarts the running sum
+    const decode = topojson.transform(topology.transform);
+    const line = topology.arcs[arc].map((point, i) => decode(point, i > 0) as [number, number]);
+    const lengthKm = geoLength({ type: 'LineString', coordinates: line }) * EARTH_RADIUS_KM;
+    addBorder(a, b, line, lengthKm);
+    addBorder(b, a, line, lengthKm);
+  });
+  return graph;
+};
+
+// --- QUERIES ---
+
+export const getSharedBorderKm = (graph: BorderGraph, a: CountryFeature, b: CountryFeature) =>
+  graph.get(a.id)?.neighbors.get(b.id)?.lengthKm ?? 0;
+
+/** Null for countries the graph does not cover. */
+export const isLandlocked = (graph: BorderGraph, country: CountryFeature): boolean | null => {
+  const borders = graph.get(country.id);
+  return borders ? !borders.coastal : null;
+};
+
+export interface FrontLine {
+  lengthKm: number;
+  geometry: { type: 'MultiLineString'; coordinates: [number, number][][] };
+}
+
+/** Land border between the two blocs (each country with its allies); null when they do not touch. */
+export const getFrontLine = (graph: BorderGraph, warState: WarState): FrontLine | null => {
+  if (!warState.aggressor || !warState.defender) return null;
+  const blocA = [warState.aggressor, ...warState.aggressorAllies];
+  const blocB = new Set([warState.defender, ...warState.defenderAllies].map(country => country.id));
+  let lengthKm = 0;
+  const coordinates: [number, number][][] = [];
+  blocA.forEach(country => {
+    graph.get(country.id)?.neighbors.forEach((border, neighborId) => {
+      if (!blocB.has(neighborId)) return;
+      lengthKm += border.lengthKm;
+      coordinates.push(...border.lines);
+    });
+  });
+  return coordinates.length > 0 ? { lengthKm, geometry: { type: 'MultiLineString', coordinates } } : null;
+};
+
+export const getTheatreTerrain = (graph: BorderGraph, warState: WarState): TheatreTerrain => {
+  const front = getFrontLine(graph, warState);
+  return front ? { kind: 'LAND', frontKm: Math.round(front.lengthKm) } : { kind: 'OVERSEAS', frontKm: 0 };
+};
@@ -0,0 +1,212 @@
+import { Belligerents, CampaignSide, CampaignState, CampaignTurn, CombatStat, CountryFeature, WarTimeline } from "../types";
+import { getCountryStats, getPowerBalance, getPowerWeights, getReachFactor, PowerWeights } from "./countryStats";
+import { createRng } from "./simulationEngine";
+
+// --- CAMPAIGN MODE ---
+// A war advanced one week at a time. Every turn is a pure function of the
+// previous state and the campaign seed, so a campaign replays exactly.
+
+const COMBAT_STATS: CombatStat[] = ['infantry', 'armor', 'air', 'cyber', 'logistics', 'intel'];
+
+export const DEFAULT_MAX_TURNS = 26; // Half a year of weekly turns
+
+const BASE_ATTRITION = 0.08;     // Fraction of strength lost per turn at full intensity, even match
+const MAX_TERRITORY_SHIFT = 6;   // % of homeland that can change hands in one week
+const COLLAPSE_MORALE = 15;
+export const CAPITULATION_TERRITORY = 25; // % of homeland left when a side gives up
+const COLLAPSE_STRENGTH = 0.3;   // Fraction of starting strength at which an army stops fighting
+
+const FRONT_REPORTS = [
+  "Artillery duels along the main line of contact.",
+  "Drone swarms contest air superiority over the front.",
+  "Armored spearhead probes the enemy flank.",
+  "Supply convoys ambushed behind the lines.",
+  "Cyber units black out regional command networks.",
+  "Entrenched infantry repel repeated assaults.",
+  "Night raid strikes forward fuel depots."
+];
+
+const createSide = (country: CountryFeature): CampaignSide => {
+  const stats = getCountryStats(country);
+  const strength = {
+    infantry: stats.infantry,
+    armor: stats.armor,
+    air: stats.air,
+    cyber: stats.cyber,
+    logistics: stats.logistics,
+    intel: stats.intel
+  };
+  return {
+    name: country.properties.name,
+    strength,
+    initialStrength: COMBAT_STATS.reduce((sum, stat) => sum + strength[stat], 0) / COMBAT_STATS.length,
+    techLevel: stats.techLevel,
+    manpower: stats.manpower,
+    attrition: 0,
+    morale: 100,
+    territory: 100
+  };
+};
+
+export const createCampaign = (
+  belligerents: Belligerents,
+  seed: number,
+  maxTurns: number = DEFAULT_MAX_TURNS
+): CampaignState => {
+  const balance = getPowerBalance(belligerents);
+  return {
+    seed,
+    turn: 0,
+    maxTurns,
+    aggressor: createSide(belligerents.aggressor),
+    defender: createSide(belligerents.defender),
+    aggressorAllies: belligerents.aggressorAllies.map(a => a.properties.name),
+    defenderAllies: belligerents.defenderAllies.map(a => a.properties.name),
+    aggressorAllySupport: balance.aggressorAllies,
+    defenderAllySupport: balance.defenderAllies,
+    terrain: belligerents.terrain?.kind,
+    aggressorReach: getReachFactor(belligerents, belligerents.aggressor),
+    history: [],
+    outcome: null
+  };
+};
+
+// Same weighting as getPowerScore, applied to what is left of the army and scaled by morale
+const getEffectivePower = (side: CampaignSide, weights: PowerWeights) => {
+  const arms = COMBAT_STATS.reduce((sum, stat) => sum + side.strength[stat] * weights[stat], 0);
+  return (arms + side.techLevel * weights.techLevel) * (0.5 + side.morale / 200);
+};
+
+export const getAverageStrength = (side: CampaignSide) =>
+  COMBAT_STATS.reduce((sum, stat) => sum + side.strength[stat], 0) / COMBAT_STATS.length;
+
+const applyLosses = (side: CampaignSide, fraction: number, rng: () => number): number => {
+  const strength = { ...side.strength };
+  COMBAT_STATS.forEach(stat => {
+    // Each branch takes a slightly different share of the week's losses
+    strength[stat] = Math.max(0, strength[stat] * (1 - fraction * (0.7 + rng() * 0.6)));
+  });
+  const casualties = Math.round(side.manpower * fraction * 0.5);
+  side.strength = strength;
+  side.manpower -= casualties;
+  side.attrition += casualties;
+  return casualties;
+};
+
+const checkOutcome = (state: CampaignState): CampaignState['outcome'] => {
+  const sides: [CampaignSide, CampaignSide][] = [[state.aggressor, state.defender], [state.defender, state.aggressor]];
+  for (const [side, enemy] of sides) {
+    if (side.territory <= CAPITULATION_TERRITORY) return { winner: enemy.name, reason: `${side.name} capitulates after losing ${(100 - side.territory).toFixed(0)}% of its territory.` };
+    if (side.morale <= COLLAPSE_MORALE) return { winner: enemy.name, reason: `${side.name} suffers a collapse in morale.` };
+    if (getAverageStrength(side) <= side.initialStrength * COLLAPSE_STRENGTH) return { winner: enemy.name, reason: `${side.name}'s armed forces are combat ineffective.` };
+  }
+  if (state.turn >= state.maxTurns) return { winner: null, reason: `No decisive result after ${state.maxTurns} weeks. Armistice negotiated.` };
+  return null;
+};
+
+/**
+ * Advances the campaign by one week. Returns a new state; the input is not mutated.
+ * Stepping a finished campaign returns it unchanged.
+ */
+export const stepCampaign = (state: CampaignState): CampaignState => {
+  if (state.outcome) return state;
+
+  const turn = state.turn + 1;
+  // Per-turn stream so any single week can be re-derived from (seed, turn)
+  const rng = createRng((state.seed ^ Math.imul(turn, 0x9E3779B1)) >>> 0);
+
+  const aggressor: CampaignSide = { ...state.aggressor };
+  const defender: CampaignSide = { ...state.defender };
+
+  // Coalition partners commit unevenly from week to week
+  const weights = getPowerWeights(state.terrain);
+  const powerA = getEffectivePower(aggressor, weights) * (state.aggressorReach ?? 1) + state.aggressorAllySupport * (0.5 + rng() * 0.5);
+  const powerB = getEffectivePower(defender, weights) + state.defenderAllySupport * (0.5 + rng() * 0.5);
+  const advantage = powerA / (powerA + powerB || 1);
+  const intensity = 0.4 + rng() * 0.6;
+
+  // The weaker side bleeds faster
+  const aggressorLosses = applyLosses(aggressor, BASE_ATTRITION * intensity * 2 * (1 - advantage), rng);
+  const defenderLosses = applyLosses(defender, BASE_ATTRITION * intensity * 2 * advantage, rng);
+
+  // Ground changes hands in proportion to the power edge, with some fog of war
+  const edge = (advantage - 0.5) * 2 + (rng() - 0.5) * 0.4;
+  const territoryShift = Math.max(-MAX_TERRITORY_SHIFT, Math.min(MAX_TERRITORY_SHIFT, edge * MAX_TERRITORY_SHIFT * intensity * 2));
+  if (territoryShift > 0) {
+    // Aggressor liberates its own lost ground before advancing into enemy territory
+    const recovered = Math.min(100 - aggressor.territory, territoryShift);
+    aggressor.territory += recovered;
+    defender.territory = Math.max(0, defender.territory - (territoryShift - recovered));
+  } else if (territoryShift < 0) {
+    const recovered = Math.min(100 - defender.territory, -territoryShift);
+    defender.territory += recovered;
+    aggressor.territory = Math.max(0, aggressor.territory - (-territoryShift - recovered));
+  }
+
+  // Morale follows the week's result
+  const moraleSwing = edge * 6 * intensity;
+  aggressor.morale = Math.max(0, Math.min(100, aggressor.morale - 2 * intensity + moraleSwing));
+  defender.morale = Math.max(0, Math.min(100, defender.morale - 2 * intensity - moraleSwing));
+
+  const report = FRONT_REPORTS[Math.floor(rng() * FRONT_REPORTS.length)];
+  const gainer = territoryShift >= 0 ? aggressor.name : defender.name;
+  const record: CampaignTurn = {
+    turn,
+    intensity,
+    advantage,
+    aggressorLosses,
+    defenderLosses,
+    territoryShift,
+    territory: { aggressor: aggressor.territory, defender: defender.territory },
+    summary: `${report} ${gainer} gains ${Math.abs(territoryShift).toFixed(1)}% ground.`
+  };
+
+  const next: CampaignState = {
+    ...state,
+    turn,
+    aggressor,
+    defender,
+    history: [...state.history, record],
+    outcome: null
+  };
+  next.outcome = checkOutcome(next);
+  return next;
+};
+
+export const getCampaignTimeline = (state: CampaignState): WarTimeline => {
+  let aggressorCasualties = 0;
+  let defenderCasualties = 0;
+  const points = state.history.map(week => {
+    aggressorCasualties += week.aggressorLosses;
+    defenderCasualties += week.defenderLosses;
+    return {
+      turn: week.turn,
+      intensity: week.intensity,
+      aggressorCasualties,
+      defenderCasualties,
+      control: week.territory.aggressor - week.territory.defender,
+      summary: week.summary
+    };
+  });
+  return { source: 'CAMPAIGN', aggressor: state.aggressor.name, defender: state.defender.name, points };
+};
+
+const formatSide = (side: CampaignSide) =>
+  `${side.name}: STR ${(getAverageStrength(side) / side.initialStrength * 100).toFixed(0)}% | MORALE ${side.morale.toFixed(0)} | TERRITORY ${side.territory.toFixed(1)}% | LOSSES ${(side.attrition / 1000).toFixed(1)}K`;
+
+// Terminal entry for the most recent turn
+export const formatCampaignTurn = (state: CampaignState): string => {
+  const last = state.history[state.history.length - 1];
+  if (!last) return '';
+  const lines = [
+    `WEEK ${last.turn}/${state.maxTurns} // INTENSITY ${(last.intensity * 100).toFixed(0)}%`,
+    last.summary,
+    formatSide(state.aggressor),
+    formatSide(state.defender)
+  ];
+  if (state.outcome) {
+    lines.push(state.outcome.winner ? `CAMPAIGN OVER - VICTORY: ${state.outcome.winner}` : 'CAMPAIGN OVER - STALEMATE');
+    lines.push(state.outcome.reason);
+  }
+  return lines.join('\n');
+};
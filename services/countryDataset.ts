@@ -0,0 +1,182 @@
+import { CountryFeature, CountryStats } from "../types";
+
+// --- COUNTRY DATASET IMPORT ---
+//
+// Accepted layouts (one record per country, every stat column optional):
+//
+//   JSON array:   [{ "id": "840", "air": 97, "techLevel": 10 }, ...]
+//   JSON object:  { "840": { "air": 97 }, "250": { "armor": 81 } }
+//   CSV:          id,infantry,armor,air,cyber,logistics,intel,manpower,techLevel
+//                 840,88,95,97,92,99,94,1300000,10
+//
+// Records are keyed by the world-atlas feature id, i.e. the ISO 3166-1 numeric
+// code ("iso" is accepted as an alias of "id"). A "name" key may be used instead
+// for territories without a code. Alpha codes ("FRA") match no feature and are
+// reported by findUnmatchedRecords.
+
+export type StatOverride = Partial<CountryStats>;
+
+export interface CountryDataset {
+  byId: Map<string, StatOverride>;
+  byName: Map<string, StatOverride>;
+  errors: string[];
+}
+
+const RATING_FIELDS = ['infantry', 'armor', 'air', 'cyber', 'logistics', 'intel'] as const;
+const STAT_FIELDS: (keyof CountryStats)[] = [...RATING_FIELDS, 'manpower', 'techLevel'];
+const KEY_FIELDS = ['id', 'iso', 'name'];
+
+// world-atlas ids are zero-padded 3-digit strings ("004"), datasets often drop the padding
+export const normalizeCountryId = (id: string | number): string => {
+  const value = String(id).trim();
+  return /^\d+$/.test(value) ? value.padStart(3, '0') : value.toUpperCase();
+};
+
+export const normalizeCountryName = (name: string): string => name.trim().toLowerCase();
+
+const validateField = (field: keyof CountryStats, raw: unknown): { value?: number; error?: string } => {
+  if (raw === '' || raw === null || raw === undefined) return {};
+  const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+  if (!Number.isFinite(value)) return { error: `${field} is not a number (${JSON.stringify(raw)})` };
+
+  if ((RATING_FIELDS as readonly string[]).includes(field)) {
+    if (value < 0 || value > 100) return { error: `${field} must be within 0-100 (got ${value})` };
+  } else if (field === 'manpower') {
+    if (value < 0 || !Number.isInteger(value)) return { error: `manpower must be a non-negative integer (got ${value})` };
+  } else if (field === 'techLevel') {
+    if (value < 1 || value > 10 || !Number.isInteger(value)) return { error: `techLevel must be an integer 1-10 (got ${value})` };
+  }
+  return { value };
+};
+
+const addRecord = (dataset: CountryDataset, record: Record<string, unknown>, label: string) => {
+  const id = record.id ?? record.iso;
+  const name = record.name;
+  if ((id === undefined || id === '') && (typeof name !== 'string' || !name.trim())) {
+    dataset.errors.push(`${label}: missing "id", "iso" or "name" key.`);
+    return;
+  }
+
+  const override: StatOverride = {};
+  Object.keys(record).forEach(key => {
+    if (KEY_FIELDS.includes(key)) return;
+    if (!STAT_FIELDS.includes(key as keyof CountryStats)) {
+      dataset.errors.push(`${label}: unknown field "${key}" ignored.`);
+      return;
+    }
+    const { value, error } = validateField(key as keyof CountryStats, record[key]);
+    if (error) dataset.errors.push(`${label}: ${error}`);
+    else if (value !== undefined) override[key as keyof CountryStats] = value;
+  });
+
+  if (Object.keys(override).length === 0) {
+    dataset.errors.push(`${label}: no valid stat values, record skipped.`);
+    return;
+  }
+  if (id !== undefined && id !== '') dataset.byId.set(normalizeCountryId(id as string | number), override);
+  else dataset.byName.set(normalizeCountryName(name as string), override);
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and CRLF line endings
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const parseCsv = (text: string, dataset: CountryDataset) => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    dataset.errors.push('CSV file is empty.');
+    return;
+  }
+  const columns = header.map(col => col.trim());
+  // Unknown columns are reported once here rather than once per row
+  columns.forEach(col => {
+    if (!KEY_FIELDS.includes(col) && !STAT_FIELDS.includes(col as keyof CountryStats)) {
+      dataset.errors.push(`Unknown column "${col}" ignored.`);
+    }
+  });
+  rows.forEach((cells, index) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((col, c) => {
+      if (KEY_FIELDS.includes(col) || STAT_FIELDS.includes(col as keyof CountryStats)) record[col] = cells[c]?.trim() ?? '';
+    });
+    addRecord(dataset, record, `Row ${index + 2}`);
+  });
+};
+
+const parseJson = (text: string, dataset: CountryDataset) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    dataset.errors.push(`Invalid JSON: ${(error as Error).message}`);
+    return;
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach((entry, index) => {
+      if (entry && typeof entry === 'object') addRecord(dataset, entry as Record<string, unknown>, `Entry ${index}`);
+      else dataset.errors.push(`Entry ${index}: expected an object.`);
+    });
+  } else if (data && typeof data === 'object') {
+    Object.entries(data as Record<string, unknown>).forEach(([key, entry]) => {
+      if (entry && typeof entry === 'object') addRecord(dataset, { id: key, ...(entry as Record<string, unknown>) }, `Key "${key}"`);
+      else dataset.errors.push(`Key "${key}": expected an object.`);
+    });
+  } else {
+    dataset.errors.push('JSON root must be an array or an object keyed by country id.');
+  }
+};
+
+/**
+ * Parses a dataset file. Invalid fields are dropped individually and reported in
+ * `errors`; the valid remainder of the record is still applied.
+ */
+export const parseCountryDataset = (text: string, format: 'json' | 'csv'): CountryDataset => {
+  const dataset: CountryDataset = { byId: new Map(), byName: new Map(), errors: [] };
+  if (format === 'json') parseJson(text, dataset);
+  else parseCsv(text, dataset);
+  return dataset;
+};
+
+/** Record keys (normalized ids and names) that match no feature on the map. */
+export const findUnmatchedRecords = (dataset: CountryDataset, countries: CountryFeature[]): string[] => {
+  const ids = new Set(countries.map(country => normalizeCountryId(country.id)));
+  const names = new Set(countries.map(country => normalizeCountryName(country.properties.name)));
+  return [
+    ...[...dataset.byId.keys()].filter(id => !ids.has(id)),
+    ...[...dataset.byName.keys()].filter(name => !names.has(name))
+  ];
+};
+
+export const detectDatasetFormat = (fileName: string, text: string): 'json' | 'csv' => {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
@@ -0,0 +1,59 @@
+import { geoBounds, geoContains } from "d3";
+import { CountryFeature } from "../types";
+
+// --- COUNTRY SPATIAL INDEX ---
+// Point-in-country lookup for hit-testing on every pointer move. Countries are
+// bucketed into a lng/lat grid by bounding box, so a lookup runs the exact
+// (expensive) geoContains test on the handful of countries near the point.
+
+export interface CountryIndex {
+  find: (point: [number, number]) => CountryFeature | null; // [lng, lat]
+}
+
+const CELL_DEGREES = 10;
+const COLUMNS = 360 / CELL_DEGREES;
+const ROWS = 180 / CELL_DEGREES;
+
+const column = (lng: number) => Math.min(COLUMNS - 1, Math.max(0, Math.floor((lng + 180) / CELL_DEGREES)));
+const row = (lat: number) => Math.min(ROWS - 1, Math.max(0, Math.floor((lat + 90) / CELL_DEGREES)));
+
+const buildIndex = (features: CountryFeature[]): CountryIndex => {
+  const cells = new Map<number, CountryFeature[]>();
+  const add = (feature: CountryFeature, west: number, south: number, east: number, north: number) => {
+    for (let r = row(south); r <= row(north); r++) {
+      for (let c = column(west); c <= column(east); c++) {
+        const key = r * COLUMNS + c;
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(feature); else cells.set(key, [feature]);
+      }
+    }
+  };
+
+  features.forEach(feature => {
+    const [[west, south], [east, north]] = geoBounds(feature);
+    if (![west, south, east, north].every(Number.isFinite)) return;
+    if (west <= east) {
+      add(feature, west, south, east, north);
+    } else {
+      // Box crosses the antimeridian (Russia, Fiji): index both halves
+      add(feature, west, south, 180, north);
+      add(feature, -180, south, east, north);
+    }
+  });
+
+  return {
+    find: point => cells.get(row(point[1]) * COLUMNS + column(point[0]))?.find(feature => geoContains(feature, point)) ?? null
+  };
+};
+
+const indexes = new WeakMap<CountryFeature[], CountryIndex>();
+
+/** Index for a feature list, built once per list (topology load). */
+export const getCountryIndex = (features: CountryFeature[]): CountryIndex => {
+  let index = indexes.get(features);
+  if (!index) {
+    index = buildIndex(features);
+    indexes.set(features, index);
+  }
+  return index;
+};
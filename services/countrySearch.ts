@@ -0,0 +1,70 @@
+import { CountryFeature } from "../types";
+
+// --- FUZZY COUNTRY SEARCH ---
+// Subsequence matching (every query character appears in order), scored so
+// whole-name, prefix and word-start matches rank above scattered letters.
+
+export interface CountryMatch {
+  country: CountryFeature;
+  score: number;
+  indices: number[]; // Matched character positions in properties.name, for highlighting
+}
+
+// Case- and accent-insensitive, one character per input character so indices stay aligned
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+const foldChars = (text: string) => [...text].map(char => fold(char).charAt(0) || char);
+
+const isWordStart = (chars: string[], i: number) => i === 0 || !/[a-z0-9]/.test(chars[i - 1]);
+
+/** Scores one name; null when the query is not a subsequence of it. */
+export const scoreCountryName = (query: string, name: string): { score: number; indices: number[] } | null => {
+  const phrase = fold(query).trim();
+  const needle = phrase.replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+  const chars = foldChars(name);
+
+  // Contiguous matches first: they beat any scattered subsequence
+  const at = chars.join('').indexOf(phrase);
+  if (at !== -1) {
+    const indices = Array.from({ length: phrase.length }, (_, k) => at + k).filter(i => chars[i] !== ' ');
+    const score = 1000
+      + (phrase.length === chars.length ? 1000 : 0)
+      + (at === 0 ? 500 : isWordStart(chars, at) ? 250 : 0)
+      - name.length;
+    return { score, indices };
+  }
+
+  // Greedy subsequence, preferring word starts
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    let index = -1;
+    for (let i = from; i < chars.length; i++) {
+      if (chars[i] !== char) continue;
+      if (index === -1) index = i;
+      if (isWordStart(chars, i)) { index = i; break; }
+    }
+    if (index === -1) return null;
+    const previous = indices[indices.length - 1];
+    score += 10;
+    if (isWordStart(chars, index)) score += 8;
+    if (previous !== undefined && index === previous + 1) score += 6;
+    else if (previous !== undefined) score -= Math.min(5, index - previous - 1);
+    indices.push(index);
+    from = index + 1;
+  }
+  // Acronyms ("usa", "uk") hit only word starts
+  if (indices.length > 1 && indices.every(i => isWordStart(chars, i))) score += 50;
+  return { score: score - Math.round(name.length / 4), indices };
+};
+
+/** Matching countries, best first; an empty query lists all countries alphabetically. */
+export const searchCountries = (query: string, countries: CountryFeature[]): CountryMatch[] => {
+  const matches: CountryMatch[] = [];
+  countries.forEach(country => {
+    const result = scoreCountryName(query, country.properties.name);
+    if (result) matches.push({ country, ...result });
+  });
+  return matches.sort((a, b) => b.score - a.score || a.country.properties.name.localeCompare(b.country.properties.name));
+};
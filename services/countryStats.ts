@@ -0,0 +1,191 @@
+import { Belligerents, CombatStat, CountryFeature, CountryStats, LogisticsEntry, SimulationModifiers, TerrainKind } from "../types";
+import { CountryDataset, normalizeCountryId, normalizeCountryName } from "./countryDataset";
+import { getProjectionFactor, getTheatreDistanceKm } from "./powerProjection";
+
+// --- STAT GENERATION ---
+
+// Deterministic 32-bit hash of a country name. Every derived stat is sliced out of it.
+const hashName = (name: string) => {
+  let h = 0;
+  for (let i = 0; i < name.length; i++) h = Math.imul(31, h) + name.charCodeAt(i) | 0;
+  return Math.abs(h);
+};
+
+/**
+ * Hashed fallback stat vector. Combat/support ratings are 40-99,
+ * manpower is 50K-550K personnel and techLevel is MK-1 to MK-10.
+ */
+export const getDefaultStats = (name: string): CountryStats => {
+  const seed = hashName(name);
+
+  return {
+    infantry: 40 + (seed % 60),
+    armor: 40 + ((seed >> 2) % 60),
+    air: 40 + ((seed >> 4) % 60),
+    cyber: 40 + ((seed >> 6) % 60),
+    logistics: 40 + ((seed >> 8) % 60),
+    intel: 40 + ((seed >> 10) % 60),
+    manpower: 50000 + (seed % 500000),
+    techLevel: 1 + (seed % 10) // 1-10
+  };
+};
+
+// --- DATASET OVERRIDES ---
+
+let activeDataset: CountryDataset | null = null;
+let revision = 0;
+const listeners = new Set<() => void>();
+
+// Imported values replace hashed defaults field by field; uncovered countries keep the hash.
+export const setCountryDataset = (dataset: CountryDataset | null) => {
+  activeDataset = dataset;
+  revision++;
+  listeners.forEach(listener => listener());
+};
+
+export const getCountryDataset = () => activeDataset;
+
+export const getDatasetSize = () => activeDataset ? activeDataset.byId.size + activeDataset.byName.size : 0;
+
+// useSyncExternalStore contract, so widgets re-render when a dataset is (un)loaded
+export const subscribeCountryStats = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCountryStatsRevision = () => revision;
+
+const getOverride = (country: CountryFeature) => {
+  if (!activeDataset) return undefined;
+  return activeDataset.byId.get(normalizeCountryId(country.id)) ||
+    activeDataset.byName.get(normalizeCountryName(country.properties.name));
+};
+
+export const getCountryStats = (country: CountryFeature): CountryStats => {
+  const stats = getDefaultStats(country.properties.name);
+  const override = getOverride(country);
+  return override ? { ...stats, ...override } : stats;
+};
+
+// --- POWER FORMULA ---
+
+/**
+ * power = infantry + armor + air                  (combat arms, full weight)
+ *       + 0.5 * (cyber + logistics + intel)       (support arms, half weight)
+ *       + 10 * techLevel                          (force multiplier)
+ *
+ * Manpower is deliberately excluded: it is a headcount, not a rating, and
+ * would drown out every other term.
+ */
+export const POWER_WEIGHTS = {
+  infantry: 1,
+  armor: 1,
+  air: 1,
+  cyber: 0.5,
+  logistics: 0.5,
+  intel: 0.5,
+  techLevel: 10
+} as const;
+
+export type PowerWeights = Record<keyof typeof POWER_WEIGHTS, number>;
+
+/**
+ * Terrain multipliers on POWER_WEIGHTS. A shared land border is fought by
+ * infantry and armor; an overseas war is won by air power and the logistics
+ * to project force across the water.
+ */
+export const TERRAIN_WEIGHTS: Record<TerrainKind, Partial<Record<CombatStat, number>>> = {
+  LAND: { infantry: 1.3, armor: 1.3, logistics: 0.8 },
+  OVERSEAS: { infantry: 0.7, armor: 0.5, air: 1.4, logistics: 1.5 }
+};
+
+export const getPowerWeights = (terrain?: TerrainKind): PowerWeights => {
+  if (!terrain) return POWER_WEIGHTS;
+  const weights: PowerWeights = { ...POWER_WEIGHTS };
+  Object.entries(TERRAIN_WEIGHTS[terrain]).forEach(([stat, factor]) => { weights[stat as CombatStat] *= factor; });
+  return weights;
+};
+
+export const getPowerScore = (stats: CountryStats, weights: PowerWeights = POWER_WEIGHTS): number =>
+  stats.infantry * weights.infantry +
+  stats.armor * weights.armor +
+  stats.air * weights.air +
+  stats.cyber * weights.cyber +
+  stats.logistics * weights.logistics +
+  stats.intel * weights.intel +
+  stats.techLevel * weights.techLevel;
+
+export const getCountryPower = (country: CountryFeature, weights: PowerWeights = POWER_WEIGHTS): number =>
+  getPowerScore(getCountryStats(country), weights);
+
+// --- BALANCE OF POWER ---
+
+export const DEFAULT_ALLY_COMMITMENT = 0.5; // Allies count for 50% impact unless told otherwise
+
+export const getAllyCommitment = (commitments: Record<string, number> | undefined, ally: CountryFeature): number =>
+  commitments?.[String(ally.id)] ?? DEFAULT_ALLY_COMMITMENT;
+
+export interface PowerBalance {
+  aggressor: number;
+  defender: number;
+  aggressorAllies: number;
+  defenderAllies: number;
+  chanceA: number; // Probability that the aggressor bloc prevails (0-1)
+}
+
+// Accepts a WarState as-is: factions may still be unselected
+type PartialBelligerents = Omit<Belligerents, 'aggressor' | 'defender'> & {
+  aggressor: CountryFeature | null;
+  defender: CountryFeature | null;
+};
+
+// Power-projection factor of one belligerent; 1 until both factions are picked
+export const getReachFactor = (belligerents: PartialBelligerents, country: CountryFeature): number => {
+  const { aggressor, defender } = belligerents;
+  if (!aggressor || !defender) return 1;
+  return getProjectionFactor(getTheatreDistanceKm(country, aggressor, defender), getCountryStats(country).logistics);
+};
+
+// Distance and projection factor of every belligerent that fights away from home
+export const getLogistics = (belligerents: Belligerents): LogisticsEntry[] =>
+  [belligerents.aggressor, ...belligerents.aggressorAllies, ...belligerents.defenderAllies]
+    .map(country => {
+      const distanceKm = getTheatreDistanceKm(country, belligerents.aggressor, belligerents.defender);
+      return {
+        name: country.properties.name,
+        distanceKm,
+        factor: getProjectionFactor(distanceKm, getCountryStats(country).logistics)
+      };
+    });
+
+/**
+ * Single source of truth for "who is stronger". The WarStats dominance bar and
+ * the simulation engine's win roll both read from here. Each ally contributes
+ * its power scaled by its commitment level; the theatre terrain reweights the arms
+ * and distance from the theatre costs power (see getProjectionFactor).
+ */
+export const getPowerBalance = (
+  belligerents: PartialBelligerents,
+  modifiers: SimulationModifiers = {}
+): PowerBalance => {
+  const { aggressor, defender, aggressorAllies, defenderAllies, allyCommitment, terrain } = belligerents;
+  const weights = getPowerWeights(terrain?.kind);
+  const projectedPower = (country: CountryFeature) => getCountryPower(country, weights) * getReachFactor(belligerents, country);
+  const coalitionPower = (allies: CountryFeature[]) =>
+    allies.reduce((sum, ally) => sum + projectedPower(ally) * getAllyCommitment(allyCommitment, ally), 0);
+
+  const aggressorPower = aggressor ? projectedPower(aggressor) * (modifiers.aggressorMultiplier ?? 1) : 0;
+  const defenderPower = defender ? getCountryPower(defender, weights) * (modifiers.defenderMultiplier ?? 1) : 0;
+  const aggressorAlliesPower = coalitionPower(aggressorAllies);
+  const defenderAlliesPower = coalitionPower(defenderAllies);
+
+  const blocA = aggressorPower + aggressorAlliesPower;
+  const total = blocA + defenderPower + defenderAlliesPower;
+  return {
+    aggressor: aggressorPower,
+    defender: defenderPower,
+    aggressorAllies: aggressorAlliesPower,
+    defenderAllies: defenderAlliesPower,
+    chanceA: total === 0 ? 0.5 : blocA / total
+  };
+};
@@ -0,0 +1,85 @@
+import { geoArea, geoCentroid, geoDistance, geoInterpolate } from "d3";
+import { CountryFeature } from "../types";
+
+// --- GLOBE CAMERA GEOMETRY ---
+// The camera is an orthographic rotation [lambda, phi] plus a zoom factor.
+
+export interface CameraView {
+  rotation: [number, number];
+  zoom: number;
+}
+
+export interface BoundingCircle {
+  center: [number, number]; // [lng, lat]
+  radius: number;           // Radians
+}
+
+const MAX_CIRCLE_POINTS = 2000; // Vertex sample size; plenty for a framing circle
+const CIRCLE_ITERATIONS = 60;
+
+type Coordinates = GeoJSON.Position | GeoJSON.Position[] | GeoJSON.Position[][] | GeoJSON.Position[][][];
+
+const collectVertices = (coordinates: Coordinates, into: [number, number][]) => {
+  if (typeof coordinates[0] === 'number') {
+    into.push(coordinates as [number, number]);
+  } else {
+    (coordinates as Coordinates[]).forEach(child => collectVertices(child, into));
+  }
+  return into;
+};
+
+/** The largest polygon of a country, so overseas territories (French Guiana, ...) do not pull the camera away. */
+export const getMainland = (country: CountryFeature): CountryFeature => {
+  if (country.geometry?.type !== 'MultiPolygon') return country;
+  const parts = country.geometry.coordinates.map((coordinates: GeoJSON.Position[][]): GeoJSON.Polygon => ({ type: 'Polygon', coordinates }));
+  const largest = parts.reduce((best: GeoJSON.Polygon, part: GeoJSON.Polygon) => geoArea(part) > geoArea(best) ? part : best);
+  return { ...country, geometry: largest };
+};
+
+/**
+ * Approximate smallest circle on the sphere containing all features
+ * (Badoiu-Clarkson: repeatedly step the center toward the farthest vertex).
+ */
+export const getBoundingCircle = (countries: CountryFeature[]): BoundingCircle => {
+  const features = countries.map(getMainland);
+  const vertices = features.flatMap(feature => feature.geometry ? collectVertices(feature.geometry.coordinates, []) : []);
+  const stride = Math.max(1, Math.ceil(vertices.length / MAX_CIRCLE_POINTS));
+  const points = vertices.filter((_, i) => i % stride === 0);
+
+  let center = geoCentroid({ type: 'FeatureCollection', features });
+  if (points.length === 0) return { center, radius: 0 };
+
+  const farthest = () => points.reduce(
+    (best, point) => {
+      const distance = geoDistance(center, point);
+      return distance > best.distance ? { point, distance } : best;
+    },
+    { point: points[0], distance: -1 }
+  );
+
+  for (let i = 1; i <= CIRCLE_ITERATIONS; i++) {
+    center = geoInterpolate(center, farthest().point)(1 / (i + 1));
+  }
+  return { center, radius: farthest().distance };
+};
+
+/** Rotation that puts a point in the middle of the globe. */
+export const getRotationFor = ([lng, lat]: [number, number]): [number, number] => [-lng, -lat];
+
+/** Interpolates between two views along the shorter way around, with zoom changing geometrically. */
+export const interpolateView = (from: CameraView, to: CameraView) => {
+  const dLambda = ((to.rotation[0] - from.rotation[0]) % 360 + 540) % 360 - 180;
+  const dPhi = to.rotation[1] - from.rotation[1];
+  const zoomRatio = to.zoom / from.zoom;
+  return (t: number): CameraView => ({
+    rotation: [from.rotation[0] + dLambda * t, from.rotation[1] + dPhi * t],
+    zoom: from.zoom * Math.pow(zoomRatio, t)
+  });
+};
+
+/** Angular distance (degrees) the camera travels between two views. */
+export const getViewDistance = (from: CameraView, to: CameraView) =>
+  geoDistance(
+    [-from.rotation[0], -from.rotation[1]],
+    [-to.rotation[0], -to.rotation[1]]
+  ) * 180 / Math.PI;
@@ -0,0 +1,53 @@
+import { SystemLog } from "../types";
+
+// --- LOG EXPORT (after-action reviews) ---
+
+export type LogExportFormat = 'json' | 'text' | 'markdown';
+
+export interface LogExport {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+const truncationNote = (log: SystemLog) => log.truncated ? ' [TRUNCATED]' : '';
+
+const toText = (logs: SystemLog[]) =>
+  logs.map(log => `[${log.timestamp}] [${log.type}]${truncationNote(log)} ${log.message}`).join('\n');
+
+// CommonMark: a fence closes only on a backtick run at least as long, so outgrow any run in the text
+const toCodeBlock = (text: string) => {
+  const fence = '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+  return [fence, text, fence].join('\n');
+};
+
+const toMarkdown = (logs: SystemLog[], exportedAt: Date) => [
+  '# AEGIS After-Action Log',
+  '',
+  `Exported ${exportedAt.toISOString()} - ${logs.length} entries`,
+  '',
+  ...logs.flatMap(log => [
+    `### ${log.timestamp} - ${log.type}${truncationNote(log)}`,
+    '',
+    // Multi-line messages (reports, campaign turns) keep their layout in a code block
+    log.message.includes('\n') ? toCodeBlock(log.message) : log.message,
+    ''
+  ])
+].join('\n');
+
+export const exportLogs = (logs: SystemLog[], format: LogExportFormat, exportedAt: Date = new Date()): LogExport => {
+  switch (format) {
+    case 'json':
+      return { content: JSON.stringify(logs, null, 2), mimeType: 'application/json', extension: 'json' };
+    case 'markdown':
+      return { content: toMarkdown(logs, exportedAt), mimeType: 'text/markdown', extension: 'md' };
+    default:
+      return { content: toText(logs), mimeType: 'text/plain', extension: 'txt' };
+  }
+};
+
+/** Case-insensitive substring match on the message and type. */
+export const matchesLogSearch = (log: SystemLog, query: string) => {
+  const needle = query.trim().toLowerCase();
+  return !needle || log.message.toLowerCase().includes(needle) || log.type.toLowerCase() === needle;
+};
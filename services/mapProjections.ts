@@ -0,0 +1,95 @@
+import { GeoProjection, GeoRawProjection, geoEqualEarthRaw, geoMercatorRaw, geoOrthographicRaw, geoProjectionMutator } from "d3";
+import { MapProjection } from "../types";
+
+// --- MAP PROJECTIONS ---
+// One d3 projection whose raw function can morph between the globe and the
+// flat maps, so switching animates instead of cutting.
+
+export const MAP_PROJECTION_LABELS: Record<MapProjection, string> = {
+  globe: 'GLOBE',
+  'equal-earth': 'EQUAL EARTH',
+  mercator: 'MERCATOR'
+};
+
+const MERCATOR_MAX_LAT = 85 * Math.PI / 180; // The poles are at infinity
+
+const mercatorRaw: GeoRawProjection = Object.assign(
+  (lambda: number, phi: number) => geoMercatorRaw(lambda, Math.max(-MERCATOR_MAX_LAT, Math.min(MERCATOR_MAX_LAT, phi))),
+  { invert: geoMercatorRaw.invert }
+);
+
+// halfExtent: raw units that must fit the viewport at zoom 1. The globe's 1.1 keeps
+// its radius at height / 2.2; Mercator crops the polar extremes.
+const PROJECTIONS: Record<MapProjection, { raw: GeoRawProjection; halfExtent: [number, number] }> = {
+  globe: { raw: geoOrthographicRaw, halfExtent: [1.1, 1.1] },
+  'equal-earth': { raw: geoEqualEarthRaw, halfExtent: [2.75, 1.35] },
+  mercator: { raw: mercatorRaw, halfExtent: [Math.PI, 1.8] }
+};
+
+/** Scale at zoom 1 for a viewport. */
+export const getFitScale = (projection: MapProjection, width: number, height: number) => {
+  const [x, y] = PROJECTIONS[projection].halfExtent;
+  return Math.min(width / (2 * x), height / (2 * y));
+};
+
+// A transition from one projection to another; t runs 0-1 (eased)
+export interface ProjectionBlend {
+  from: MapProjection;
+  to: MapProjection;
+  t: number;
+}
+
+/** How much of the view is still a globe (1) versus a flat map (0). */
+export const getGlobeAmount = ({ from, to, t }: ProjectionBlend) =>
+  (from === 'globe' ? 1 - t : 0) + (to === 'globe' ? t : 0);
+
+const blendRaw = (from: MapProjection, to: MapProjection, t: number): GeoRawProjection => {
+  if (t <= 0) return PROJECTIONS[from].raw;
+  if (t >= 1) return PROJECTIONS[to].raw; // Endpoints keep their invert, so hit-testing works
+  const a = PROJECTIONS[from].raw;
+  const b = PROJECTIONS[to].raw;
+  return (lambda, phi) => {
+    const [x0, y0] = a(lambda, phi);
+    const [x1, y1] = b(lambda, phi);
+    return [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t];
+  };
+};
+
+export interface ProjectedView {
+  scale: number;
+  globe: number;     // getGlobeAmount of the blend
+  clipAngle: number; // Radians from the view center that are drawn; PI for flat maps
+}
+
+/**
+ * Creates the morphing projection and its per-frame update. rotation[1] is the
+ * globe's tilt; flat maps cannot tilt, so there it pans the map vertically to
+ * the same center latitude instead.
+ */
+export const createViewProjection = () => {
+  // d3's typings drop the factory's parameters
+  const mutate = geoProjectionMutator(blendRaw) as (from: MapProjection, to: MapProjection, t: number) => GeoProjection;
+  const projection = mutate('globe', 'globe', 1);
+
+  const update = (blend: ProjectionBlend, rotation: [number, number], zoom: number, width: number, height: number): ProjectedView => {
+    const { from, to, t } = blend;
+    mutate(from, to, t);
+    const globe = getGlobeAmount(blend);
+    const fromScale = getFitScale(from, width, height);
+    const scale = fromScale * Math.pow(getFitScale(to, width, height) / fromScale, t) * zoom;
+
+    const flatLatitude = -rotation[1] * (1 - globe) * Math.PI / 180;
+    const centerY = blendRaw(from, to, t)(0, flatLatitude)[1];
+    const clipDegrees = globe >= 1 ? 90 : globe <= 0 ? null : 90 + (1 - globe) * 89;
+
+    projection
+      .scale(scale)
+      .rotate([rotation[0], rotation[1] * globe])
+      .translate([width / 2, height / 2 + centerY * scale])
+      .clipAngle(clipDegrees);
+
+    return { scale, globe, clipAngle: clipDegrees === null ? Math.PI : clipDegrees * Math.PI / 180 };
+  };
+
+  return { projection, update };
+};
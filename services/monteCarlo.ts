@@ -0,0 +1,73 @@
+import { BatchSummary, Belligerents, SimulationModifiers } from "../types";
+import { CountryDataset } from "./countryDataset";
+import { runSimulation } from "./simulationEngine";
+
+// --- MONTE CARLO BATCH ---
+
+export interface BatchRequest extends Belligerents {
+  modifiers?: SimulationModifiers;
+  runs: number;
+  baseSeed: number;
+}
+
+// Message posted to the worker. Imported datasets live in main-thread module
+// state, so they travel with the request.
+export interface BatchWorkerMessage {
+  request: BatchRequest;
+  dataset: CountryDataset | null;
+}
+
+export interface BatchWorkerResponse {
+  summary?: BatchSummary;
+  error?: string;
+}
+
+const Z_95 = 1.96;
+
+// Wilson score interval: well-behaved near 0% and 100%, unlike the normal approximation
+const wilsonInterval = (successes: number, trials: number): [number, number] => {
+  if (trials === 0) return [0, 1];
+  const p = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (Z_95 * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+};
+
+// Run i uses its own derived seed, so any single run from a batch can be replayed alone
+export const getRunSeed = (baseSeed: number, index: number) => (baseSeed + Math.imul(index, 0x9E3779B1)) >>> 0;
+
+/**
+ * Runs the simulation engine `runs` times. Synchronous and CPU-bound: call it
+ * from the worker, or through runMonteCarlo (monteCarloRunner.ts).
+ */
+export const runBatch = (request: BatchRequest): BatchSummary => {
+  const started = performance.now();
+  const battleTypes: Record<string, number> = {};
+  const externalEvents: Record<string, number> = {};
+  let aggressorWins = 0;
+  let totalDuration = 0;
+
+  for (let i = 0; i < request.runs; i++) {
+    const result = runSimulation({ ...request, seed: getRunSeed(request.baseSeed, i) });
+    if (result.aggressorWins) aggressorWins++;
+    battleTypes[result.battleType] = (battleTypes[result.battleType] || 0) + 1;
+    externalEvents[result.externalEvent] = (externalEvents[result.externalEvent] || 0) + 1;
+    totalDuration += result.durationWeeks;
+  }
+
+  return {
+    aggressor: request.aggressor.properties.name,
+    defender: request.defender.properties.name,
+    runs: request.runs,
+    baseSeed: request.baseSeed,
+    aggressorWins,
+    winProbability: request.runs > 0 ? aggressorWins / request.runs : 0,
+    confidenceInterval: wilsonInterval(aggressorWins, request.runs),
+    battleTypes,
+    externalEvents,
+    averageDurationWeeks: request.runs > 0 ? totalDuration / request.runs : 0,
+    elapsedMs: performance.now() - started
+  };
+};
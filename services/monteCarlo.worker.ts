@@ -0,0 +1,14 @@
+import { setCountryDataset } from "./countryStats";
+import { BatchWorkerMessage, BatchWorkerResponse, runBatch } from "./monteCarlo";
+
+// Dedicated worker: one batch per worker instance, terminated by the caller afterwards
+self.onmessage = (e: MessageEvent<BatchWorkerMessage>) => {
+  let response: BatchWorkerResponse;
+  try {
+    setCountryDataset(e.data.dataset);
+    response = { summary: runBatch(e.data.request) };
+  } catch (error) {
+    response = { error: (error as Error).message };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,41 @@
+import { BatchSummary } from "../types";
+import { getCountryDataset } from "./countryStats";
+import { BatchRequest, BatchWorkerMessage, BatchWorkerResponse, runBatch } from "./monteCarlo";
+
+// Kept apart from monteCarlo.ts so the worker bundle never includes the code that spawns it
+
+/**
+ * Runs a batch off the main thread so the globe keeps its frame rate.
+ * Falls back to an inline run where module workers are unavailable.
+ */
+export const runMonteCarlo = (request: BatchRequest): Promise<BatchSummary> => {
+  const dataset = getCountryDataset();
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(runBatch(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn("Monte Carlo worker unavailable. Running batch inline.", error);
+      resolve(runBatch(request));
+      return;
+    }
+
+    worker.onmessage = (e: MessageEvent<BatchWorkerResponse>) => {
+      worker.terminate();
+      if (e.data.summary) resolve(e.data.summary);
+      else reject(new Error(e.data.error || "Monte Carlo worker returned no result"));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Monte Carlo worker crashed"));
+    };
+
+    const message: BatchWorkerMessage = { request, dataset };
+    worker.postMessage(message);
+  });
+};
@@ -0,0 +1,43 @@
+import { geoCentroid, geoDistance } from "d3";
+import { CountryFeature } from "../types";
+import { EARTH_RADIUS_KM } from "../constants";
+
+// --- POWER PROJECTION ---
+// Fighting far from home costs power. The penalty shrinks with distance in
+// proportion to the logistics stat that has to keep the force supplied.
+
+const KM_PER_LOGISTICS_POINT = 150; // Logistics 60 halves power at 9,000 km
+const MIN_PROJECTION_FACTOR = 0.3;  // Even a world away, some force always arrives
+
+// Centroid cache shared by the war model, HoloGlobe's conflict arcs and the zone theatre
+const centroids = new WeakMap<CountryFeature, [number, number]>();
+export const getCentroid = (country: CountryFeature): [number, number] => {
+  let centroid = centroids.get(country);
+  if (!centroid) {
+    centroid = geoCentroid(country);
+    centroids.set(country, centroid);
+  }
+  return centroid;
+};
+
+// Great-circle distance between two countries' centroids, rounded to the km
+export const getDistanceKm = (a: CountryFeature, b: CountryFeature): number =>
+  a.id === b.id ? 0 : Math.round(geoDistance(getCentroid(a), getCentroid(b)) * EARTH_RADIUS_KM);
+
+/**
+ * factor = 1 / (1 + distance / (logistics * KM_PER_LOGISTICS_POINT)),
+ * floored at MIN_PROJECTION_FACTOR. A force at home fights at full power.
+ */
+export const getProjectionFactor = (distanceKm: number, logistics: number): number =>
+  Math.max(MIN_PROJECTION_FACTOR, 1 / (1 + distanceKm / (Math.max(1, logistics) * KM_PER_LOGISTICS_POINT)));
+
+/**
+ * How far a belligerent must project force. The defender fights at home, the
+ * aggressor marches on the defender, and allies deploy to the nearer of the two
+ * principal belligerents (the theatre, as in getWarTheatre).
+ */
+export const getTheatreDistanceKm = (country: CountryFeature, aggressor: CountryFeature, defender: CountryFeature): number => {
+  if (country.id === defender.id) return 0;
+  if (country.id === aggressor.id) return getDistanceKm(aggressor, defender);
+  return Math.min(getDistanceKm(country, aggressor), getDistanceKm(country, defender));
+};
@@ -0,0 +1,32 @@
+import { RenderQuality } from "../types";
+import { readJson, writeJson } from "./storage";
+
+// --- RENDER QUALITY ---
+// What the globe may spend per frame. Low trades effects for frame rate on weak laptops.
+
+export interface QualityProfile {
+  maxPixelRatio: number; // Caps devicePixelRatio for the canvas backing store
+  shadows: boolean;      // shadowBlur on faction borders, jets and zone markers
+  backside: boolean;     // Far side of the globe seen through the front
+  glow: boolean;         // Atmosphere gradient
+  idleSpin: boolean;     // A spinning globe redraws its cached layers every frame
+  missiles: number;
+  maxParticles: number;
+}
+
+export const QUALITY_PROFILES: Record<RenderQuality, QualityProfile> = {
+  low: { maxPixelRatio: 1, shadows: false, backside: false, glow: false, idleSpin: false, missiles: 8, maxParticles: 24 },
+  medium: { maxPixelRatio: 1.5, shadows: false, backside: true, glow: true, idleSpin: true, missiles: 14, maxParticles: 64 },
+  high: { maxPixelRatio: 3, shadows: true, backside: true, glow: true, idleSpin: true, missiles: 20, maxParticles: 160 }
+};
+
+export const RENDER_QUALITY_OPTIONS: RenderQuality[] = ['low', 'medium', 'high'];
+
+const QUALITY_KEY = 'aegis.renderQuality';
+
+export const loadRenderQuality = (): RenderQuality => {
+  const stored = readJson<unknown>(QUALITY_KEY, null);
+  return RENDER_QUALITY_OPTIONS.includes(stored as RenderQuality) ? stored as RenderQuality : 'high';
+};
+
+export const saveRenderQuality = (quality: RenderQuality) => writeJson(QUALITY_KEY, quality);
@@ -0,0 +1,145 @@
+import { CountryFeature, SavedScenario, ScenarioSnapshot, SystemLog, WarState } from "../types";
+import { readJson, writeJson } from "./storage";
+import { formatSeed, parseSeed } from "./simulationEngine";
+
+// --- SNAPSHOTS ---
+
+export const captureScenario = (warState: WarState, seed: number | null): ScenarioSnapshot => ({
+  aggressorId: warState.aggressor ? String(warState.aggressor.id) : null,
+  defenderId: warState.defender ? String(warState.defender.id) : null,
+  aggressorAllyIds: warState.aggressorAllies.map(a => String(a.id)),
+  defenderAllyIds: warState.defenderAllies.map(a => String(a.id)),
+  allyCommitment: { ...warState.allyCommitment },
+  seed
+});
+
+/**
+ * Rebuilds a WarState from stored ids. Ids missing from the loaded topology
+ * are dropped and reported; a coalition without its leader is dropped too.
+ */
+export const restoreWarState = (snapshot: ScenarioSnapshot, countries: CountryFeature[]): { warState: WarState; missingIds: string[] } => {
+  const byId = new Map(countries.map(c => [String(c.id), c]));
+  const missingIds: string[] = [];
+  const lookup = (id: string) => {
+    const country = byId.get(id);
+    if (!country) missingIds.push(id);
+    return country;
+  };
+
+  const aggressor = snapshot.aggressorId ? lookup(snapshot.aggressorId) ?? null : null;
+  const defender = snapshot.defenderId ? lookup(snapshot.defenderId) ?? null : null;
+  const allies = (ids: string[], leader: CountryFeature | null) => leader ? ids.map(lookup).filter((c): c is CountryFeature => !!c) : [];
+
+  return {
+    warState: {
+      aggressor,
+      defender,
+      aggressorAllies: allies(snapshot.aggressorAllyIds, aggressor),
+      defenderAllies: allies(snapshot.defenderAllyIds, defender),
+      allyCommitment: { ...snapshot.allyCommitment }
+    },
+    missingIds
+  };
+};
+
+// --- URL HASH (share links) ---
+// #a=250&b=410&aa=392.826&ba=840&c=392-70.826-40&s=0x1A2B3C4D
+// Ids are ISO numeric codes (or names, for features without one), commitments whole percent, seed in hex.
+
+// Neither character is percent-encoded by URLSearchParams
+const HASH_LIST_SEPARATOR = '.';
+const HASH_PAIR_SEPARATOR = '-';
+
+// Escapes the separators too, so ids like "N. Cyprus" or "Guinea-Bissau" survive the round trip
+const encodeHashId = (id: string) =>
+  id.replace(/[%.-]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeHashId = (id: string): string | null => {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return null; // Malformed escape
+  }
+};
+
+export const encodeScenarioHash = (snapshot: ScenarioSnapshot): string => {
+  const params = new URLSearchParams();
+  if (snapshot.aggressorId) params.set('a', snapshot.aggressorId);
+  if (snapshot.defenderId) params.set('b', snapshot.defenderId);
+  if (snapshot.aggressorAllyIds.length > 0) params.set('aa', snapshot.aggressorAllyIds.map(encodeHashId).join(HASH_LIST_SEPARATOR));
+  if (snapshot.defenderAllyIds.length > 0) params.set('ba', snapshot.defenderAllyIds.map(encodeHashId).join(HASH_LIST_SEPARATOR));
+  const commitments = Object.entries(snapshot.allyCommitment)
+    .filter(([id]) => snapshot.aggressorAllyIds.includes(id) || snapshot.defenderAllyIds.includes(id))
+    .map(([id, value]) => `${encodeHashId(id)}${HASH_PAIR_SEPARATOR}${Math.round(value * 100)}`);
+  if (commitments.length > 0) params.set('c', commitments.join(HASH_LIST_SEPARATOR));
+  if (snapshot.seed !== null) params.set('s', formatSeed(snapshot.seed));
+  return `#${params.toString()}`;
+};
+
+/** Returns null when the hash does not describe a scenario (no faction set). */
+export const decodeScenarioHash = (hash: string): ScenarioSnapshot | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const aggressorId = params.get('a');
+  const defenderId = params.get('b');
+  if (!aggressorId && !defenderId) return null;
+
+  const split = (key: string) => (params.get(key) || '').split(HASH_LIST_SEPARATOR).filter(Boolean);
+  const list = (key: string) => split(key).map(decodeHashId).filter((id): id is string => !!id);
+  const allyCommitment: Record<string, number> = {};
+  split('c').forEach(entry => {
+    const [encodedId, percent] = entry.split(HASH_PAIR_SEPARATOR);
+    const id = decodeHashId(encodedId ?? '');
+    const value = Number(percent);
+    if (id && Number.isFinite(value) && value > 0 && value <= 100) allyCommitment[id] = value / 100;
+  });
+  const seedParam = params.get('s');
+
+  return {
+    aggressorId,
+    defenderId,
+    aggressorAllyIds: list('aa'),
+    defenderAllyIds: list('ba'),
+    allyCommitment,
+    seed: seedParam ? parseSeed(seedParam) : null
+  };
+};
+
+// --- LOCAL STORAGE ---
+
+const SCENARIOS_KEY = 'aegis.scenarios';
+const SESSION_KEY = 'aegis.session';
+const MAX_SESSION_LOGS = 300;
+
+// The tab's working state, restored after a refresh
+export interface StoredSession {
+  scenario: SavedScenario;
+  logs: SystemLog[];
+}
+
+export const listScenarios = (): SavedScenario[] => {
+  const scenarios = readJson<SavedScenario[]>(SCENARIOS_KEY, []);
+  return Array.isArray(scenarios) ? [...scenarios].sort((a, b) => b.savedAt.localeCompare(a.savedAt)) : [];
+};
+
+export const findScenario = (name: string): SavedScenario | undefined => {
+  const needle = name.trim().toLowerCase();
+  return listScenarios().find(s => s.name.toLowerCase() === needle);
+};
+
+/** Saves under scenario.name, replacing any scenario with the same name. Returns false if storage is full. */
+export const saveScenario = (scenario: SavedScenario): boolean =>
+  writeJson(SCENARIOS_KEY, [scenario, ...listScenarios().filter(s => s.name.toLowerCase() !== scenario.name.toLowerCase())]);
+
+export const deleteScenario = (name: string): boolean => {
+  const scenarios = listScenarios();
+  const remaining = scenarios.filter(s => s.name.toLowerCase() !== name.trim().toLowerCase());
+  if (remaining.length === scenarios.length) return false;
+  writeJson(SCENARIOS_KEY, remaining);
+  return true;
+};
+
+export const saveSession = (session: StoredSession) => {
+  writeJson(SESSION_KEY, { ...session, logs: session.logs.slice(-MAX_SESSION_LOGS) });
+};
+
+export const loadSession = (): StoredSession | null => readJson<StoredSession | null>(SESSION_KEY, null);
@@ -0,0 +1,143 @@
+import { Belligerents, CountryFeature, CountryRole, SimulationInput, SimulationResult, TheatreTerrain, WarState } from "../types";
+import { getCountryStats, getPowerBalance } from "./countryStats";
+
+// --- SEEDED RANDOMNESS ---
+
+// Mulberry32: small, fast 32-bit PRNG. Same seed -> same sequence, on every machine.
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for a new run. This is the only non-deterministic call in the engine.
+export const randomSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+// Accepts decimal or 0x-prefixed hex, as printed in simulation logs. Seeds are 32-bit:
+// larger values are rejected rather than wrapped.
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const parsed = /^0x[0-9a-f]+$/i.test(trimmed) ? parseInt(trimmed, 16) : Number(trimmed);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 0xFFFFFFFF) return null;
+  return parsed;
+};
+
+export const formatSeed = (seed: number): string => `0x${(seed >>> 0).toString(16).toUpperCase().padStart(8, '0')}`;
+
+// --- SCENARIO TABLES ---
+
+export const EXTERNAL_EVENTS = [
+  "Neighboring nations impose a strict trade embargo, stifling supply lines.",
+  "Orbital blockade established by the Lunar Defense Force.",
+  "Neutral neighboring states mobilize borders to contain the conflict.",
+  "UN Peacekeeping drone squadrons deployed to protect civilian sectors.",
+  "Cyber-attack from a rogue third-party state blacks out the region.",
+  "Mercenary fleets from the Outer Rim join the aggressor's vanguard.",
+  "Global trade routes diverted, causing economic collapse in the defender's rear guard."
+];
+
+export const BATTLE_TYPES = [
+  "Orbital Bombardment",
+  "Cyber-Kinetic Hybrid Assault",
+  "Amphibious Landing",
+  "Guerrilla Drone Warfare",
+  "High-Altitude Air Superiority",
+  "Mech-Infantry Blitzkrieg"
+];
+
+// {winner} / {loser} are substituted with country names
+export const TURNING_POINTS = [
+  "{winner} breaks the {loser} air defense network in a coordinated first strike.",
+  "A failed {loser} counter-offensive exposes its reserves to encirclement.",
+  "{winner} cyber units sever {loser} command-and-control for 72 critical hours.",
+  "{loser} supply corridors collapse under sustained interdiction.",
+  "A decapitation strike leaves {loser} field commands without direction.",
+  "{winner} armor punches through the main defensive line at night."
+];
+
+const MIN_DURATION_WEEKS = 2;
+const DURATION_SPREAD_WEEKS = 20;
+
+// --- ENGINE ---
+
+export const getCountryRole = (warState: WarState, country: CountryFeature): CountryRole | null => {
+  if (warState.aggressor?.id === country.id) return 'AGGRESSOR';
+  if (warState.defender?.id === country.id) return 'DEFENDER';
+  if (warState.aggressorAllies.some(ally => ally.id === country.id)) return 'AGGRESSOR_ALLY';
+  if (warState.defenderAllies.some(ally => ally.id === country.id)) return 'DEFENDER_ALLY';
+  return null;
+};
+
+// Null until both factions are picked. Terrain comes from the border graph (see getTheatreTerrain).
+export const getBelligerents = (warState: WarState, terrain?: TheatreTerrain): Belligerents | null => {
+  if (!warState.aggressor || !warState.defender) return null;
+  return {
+    aggressor: warState.aggressor,
+    defender: warState.defender,
+    aggressorAllies: warState.aggressorAllies,
+    defenderAllies: warState.defenderAllies,
+    allyCommitment: warState.allyCommitment,
+    terrain
+  };
+};
+
+/**
+ * Resolves a single engagement. Pure function of its input: replaying the same
+ * input (including the seed) always yields the same result.
+ */
+export const runSimulation = (input: SimulationInput): SimulationResult => {
+  const { aggressor, defender, seed } = input;
+  const rng = createRng(seed);
+
+  // Same balance the WarStats dominance bar displays
+  const balance = getPowerBalance(input, input.modifiers);
+  const { chanceA } = balance;
+
+  // Draw order is part of the replay contract: winner, event, battle type, confidence,
+  // duration, turning point, casualties.
+  const aggressorWins = rng() < chanceA;
+  const externalEvent = EXTERNAL_EVENTS[Math.floor(rng() * EXTERNAL_EVENTS.length)];
+  const battleType = BATTLE_TYPES[Math.floor(rng() * BATTLE_TYPES.length)];
+  const confidence = Math.floor(55 + rng() * 40);
+  // Even matches drag on, lopsided ones end fast
+  const evenness = 1 - Math.abs(chanceA - 0.5) * 2;
+  const durationWeeks = Math.max(1, Math.round(MIN_DURATION_WEEKS + evenness * DURATION_SPREAD_WEEKS * (0.5 + rng())));
+  const winnerName = (aggressorWins ? aggressor : defender).properties.name;
+  const loserName = (aggressorWins ? defender : aggressor).properties.name;
+  const turningPoint = TURNING_POINTS[Math.floor(rng() * TURNING_POINTS.length)]
+    .replace(/\{winner\}/g, winnerName)
+    .replace(/\{loser\}/g, loserName);
+  // Loser bleeds 15-35% of its manpower, winner 5-15%
+  const lossA = aggressorWins ? 0.05 + rng() * 0.1 : 0.15 + rng() * 0.2;
+  const lossB = aggressorWins ? 0.15 + rng() * 0.2 : 0.05 + rng() * 0.1;
+
+  return {
+    seed,
+    winner: winnerName,
+    loser: loserName,
+    aggressorWins,
+    chanceA,
+    isCloseMatch: Math.abs(chanceA - 0.5) < 0.1,
+    battleType,
+    externalEvent,
+    confidence,
+    durationWeeks,
+    turningPoint,
+    casualties: {
+      aggressor: Math.round(getCountryStats(aggressor).manpower * lossA),
+      defender: Math.round(getCountryStats(defender).manpower * lossB)
+    },
+    scores: {
+      aggressor: balance.aggressor,
+      defender: balance.defender,
+      aggressorAllies: balance.aggressorAllies,
+      defenderAllies: balance.defenderAllies
+    }
+  };
+};
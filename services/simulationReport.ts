@@ -0,0 +1,217 @@
+import { Type } from "@google/genai";
+import { Belligerents, LogisticsEntry, SimulationReport, WarTimeline } from "../types";
+import { CAPITULATION_TERRITORY } from "./campaignEngine";
+import { getLogistics } from "./countryStats";
+import { createRng, formatSeed, runSimulation } from "./simulationEngine";
+
+// --- RESPONSE SCHEMA (Gemini structured output) ---
+
+export const SIMULATION_REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    winningSide: { type: Type.STRING, enum: ['AGGRESSOR', 'DEFENDER'], description: 'Which bloc wins the war.' },
+    confidence: { type: Type.INTEGER, description: 'Confidence in the outcome, 0-100.' },
+    turningPoint: { type: Type.STRING, description: 'One sentence describing the decisive moment.' },
+    aggressorCasualties: { type: Type.INTEGER, description: 'Aggressor military casualties (personnel).' },
+    defenderCasualties: { type: Type.INTEGER, description: 'Defender military casualties (personnel).' },
+    battleType: { type: Type.STRING, description: 'Dominant form of warfare, 2-5 words.' },
+    externalEvents: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Third-party events influencing the war.' },
+    narrative: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short, punchy battle log paragraphs.' },
+    durationWeeks: { type: Type.INTEGER, description: 'Estimated length of the war in weeks.' }
+  },
+  required: ['winningSide', 'confidence', 'turningPoint', 'aggressorCasualties', 'defenderCasualties', 'battleType', 'externalEvents', 'narrative'],
+  // Narrative first, so there is readable text to stream while the verdict is still being generated
+  propertyOrdering: ['narrative', 'battleType', 'turningPoint', 'externalEvents', 'winningSide', 'confidence', 'aggressorCasualties', 'defenderCasualties', 'durationWeeks']
+};
+
+const scenarioFields = (belligerents: Belligerents, seed: number) => ({
+  seed,
+  aggressor: belligerents.aggressor.properties.name,
+  defender: belligerents.defender.properties.name,
+  aggressorAllies: belligerents.aggressorAllies.map(a => a.properties.name),
+  defenderAllies: belligerents.defenderAllies.map(a => a.properties.name),
+  logistics: getLogistics(belligerents)
+});
+
+const toCount = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
+};
+
+/**
+ * Validates the model's JSON against the schema contract. Throws on anything
+ * unusable so the caller can fall back to the procedural engine.
+ */
+export const parseAiReport = (json: string, belligerents: Belligerents, seed: number): SimulationReport => {
+  const raw = JSON.parse(json);
+  if (!raw || typeof raw !== 'object') throw new Error("Report is not an object");
+  if (raw.winningSide !== 'AGGRESSOR' && raw.winningSide !== 'DEFENDER') throw new Error(`Invalid winningSide: ${raw.winningSide}`);
+
+  const aggressorCasualties = toCount(raw.aggressorCasualties);
+  const defenderCasualties = toCount(raw.defenderCasualties);
+  if (aggressorCasualties === null || defenderCasualties === null) throw new Error("Invalid casualty figures");
+
+  const narrative = Array.isArray(raw.narrative) ? raw.narrative.filter((p: unknown) => typeof p === 'string' && p.trim()) : [];
+  if (narrative.length === 0) throw new Error("Report has no narrative");
+
+  const winningSide = raw.winningSide === 'AGGRESSOR' ? 'A' : 'B';
+  return {
+    source: 'AI',
+    ...scenarioFields(belligerents, seed),
+    winner: (winningSide === 'A' ? belligerents.aggressor : belligerents.defender).properties.name,
+    winningSide,
+    confidence: Math.max(0, Math.min(100, Math.round(Number(raw.confidence) || 0))),
+    turningPoint: String(raw.turningPoint || ''),
+    casualties: { aggressor: aggressorCasualties, defender: defenderCasualties },
+    battleType: String(raw.battleType || 'Conventional Warfare'),
+    externalEvents: Array.isArray(raw.externalEvents) ? raw.externalEvents.map(String) : [],
+    narrative,
+    durationWeeks: toCount(raw.durationWeeks)
+  };
+};
+
+/**
+ * Pulls the narrative paragraphs out of a report that is still streaming in
+ * (truncated JSON). The last paragraph may be partial.
+ */
+export const extractStreamingNarrative = (partialJson: string): string[] => {
+  const key = partialJson.match(/"narrative"\s*:\s*\[/);
+  if (!key || key.index === undefined) return [];
+
+  const paragraphs: string[] = [];
+  let i = key.index + key[0].length;
+  while (i < partialJson.length) {
+    const open = partialJson.indexOf('"', i);
+    const close = partialJson.indexOf(']', i);
+    if (open === -1 || (close !== -1 && close < open)) break;
+
+    // Scan one string literal, decoding escapes as we go; stops early if truncated
+    let text = '';
+    let j = open + 1;
+    for (; j < partialJson.length && partialJson[j] !== '"'; j++) {
+      if (partialJson[j] !== '\\') {
+        text += partialJson[j];
+        continue;
+      }
+      const escape = partialJson[++j];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        const hex = partialJson.slice(j + 1, j + 5);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        j += 4;
+      } else {
+        text += escape === 'n' ? '\n' : escape === 't' ? '\t' : escape;
+      }
+    }
+    paragraphs.push(text);
+    i = j + 1;
+  }
+  return paragraphs;
+};
+
+// --- PROCEDURAL REPORT (Fallback logic) ---
+
+export const buildProceduralReport = (belligerents: Belligerents, seed: number): SimulationReport => {
+  const result = runSimulation({ ...belligerents, seed });
+  const { winner, loser, battleType, externalEvent, isCloseMatch } = result;
+  const allAllies = [...belligerents.aggressorAllies, ...belligerents.defenderAllies].map(a => a.properties.name);
+
+  const narrative = [
+    `Conflict escalates into a ${battleType}. ${isCloseMatch ? "Forces are evenly matched in initial skirmishes." : `${winner} demonstrates immediate tactical superiority.`}`,
+    `${winner} effectively counters ${loser}'s defenses using advanced ${battleType.toLowerCase()} tactics. ${loser} attempts asymmetric countermeasures but sustains heavy infrastructure damage.`,
+    `${loser} is forced to retreat to secondary defensive lines.`
+  ];
+  if (allAllies.length > 0) {
+    narrative.splice(1, 0, `The intervention of ${allAllies.join(', ')} has significantly altered the battlefield dynamics.`);
+  }
+
+  return {
+    source: 'PROCEDURAL',
+    ...scenarioFields(belligerents, seed),
+    winner,
+    winningSide: result.aggressorWins ? 'A' : 'B',
+    confidence: result.confidence,
+    turningPoint: result.turningPoint,
+    casualties: result.casualties,
+    battleType,
+    externalEvents: [externalEvent],
+    narrative,
+    durationWeeks: result.durationWeeks
+  };
+};
+
+// --- TIMELINE ---
+
+const FALLBACK_TIMELINE_WEEKS = 8; // AI reports may omit the duration
+
+/**
+ * Week-by-week breakdown of a single run for the battle timeline. The report's
+ * casualty totals and duration are spread over the weeks by a seeded intensity
+ * curve, and the loser falls back to capitulation, as in a campaign. Drawn from
+ * its own stream, so it never shifts the runSimulation draws.
+ */
+export const getReportTimeline = (report: SimulationReport): WarTimeline => {
+  const rng = createRng((report.seed ^ 0x5BD1E995) >>> 0);
+  const weeks = Math.max(1, report.durationWeeks ?? FALLBACK_TIMELINE_WEEKS);
+  const intensities = Array.from({ length: weeks }, () => 0.4 + rng() * 0.6);
+  const totalIntensity = intensities.reduce((sum, value) => sum + value, 0);
+  const peak = intensities.indexOf(Math.max(...intensities));
+  const finalControl = (report.winningSide === 'A' ? 1 : -1) * (100 - CAPITULATION_TERRITORY);
+
+  let elapsed = 0;
+  const points = intensities.map((intensity, i) => {
+    elapsed += intensity;
+    const share = elapsed / totalIntensity;
+    const summary = i === weeks - 1 ? `${report.winner} prevails.`
+      : i === peak ? report.turningPoint
+      : i === 0 ? `${report.battleType} opens the war.`
+      : `${report.battleType} continues.`;
+    return {
+      turn: i + 1,
+      intensity,
+      aggressorCasualties: Math.round(report.casualties.aggressor * share),
+      defenderCasualties: Math.round(report.casualties.defender * share),
+      control: finalControl * share,
+      summary
+    };
+  });
+  return { source: 'SIMULATION', aggressor: report.aggressor, defender: report.defender, points };
+};
+
+// --- PLAIN-TEXT RENDERING ---
+
+export const formatCasualties = (count: number) => count >= 1000 ? `${(count / 1000).toFixed(1)}K` : String(count);
+
+// "Russia x0.85 (2,340 km)": power kept after projecting force to the theatre
+export const formatLogisticsEntry = (entry: LogisticsEntry) =>
+  `${entry.name} x${entry.factor.toFixed(2)} (${entry.distanceKm.toLocaleString('en-US')} km)`;
+
+// Text form of a report, used as the log message (search, export, copy/paste)
+export const formatSimulationReport = (report: SimulationReport): string => {
+  const sideA = `${report.aggressor}${report.aggressorAllies.length > 0 ? ` (+ ${report.aggressorAllies.join(', ')})` : ''}`;
+  const sideB = `${report.defender}${report.defenderAllies.length > 0 ? ` (+ ${report.defenderAllies.join(', ')})` : ''}`;
+
+  return `
+*** SIMULATION REPORT (${report.source === 'AI' ? 'AI LINK' : 'OFFLINE PROTOCOL'}) ***
+SCENARIO: ${sideA} vs ${sideB}
+${report.source === 'PROCEDURAL' ? `SEED: ${formatSeed(report.seed)}` : 'SEED: N/A (AI reports cannot be replayed)'}
+
+1. THEATER OF WAR:
+${report.battleType}
+${report.narrative.join('\n')}
+
+2. EXTERNAL INFLUENCE:
+${report.externalEvents.length > 0 ? report.externalEvents.join('\n') : 'None reported.'}
+
+3. TURNING POINT:
+${report.turningPoint}
+
+4. PREDICTED OUTCOME:
+VICTORY: ${report.winner}
+CONFIDENCE: ${report.confidence}%
+CASUALTIES: ${report.aggressor} ${formatCasualties(report.casualties.aggressor)} / ${report.defender} ${formatCasualties(report.casualties.defender)}
+${report.logistics?.length ? `LOGISTICS: ${report.logistics.map(formatLogisticsEntry).join(' / ')}` : ''}
+${report.durationWeeks !== null ? `EST. DURATION: ${report.durationWeeks} weeks` : ''}
+  `.trim();
+};
@@ -0,0 +1,21 @@
+// --- LOCAL STORAGE HELPERS ---
+// Storage can be unavailable (private mode) or full; reads fall back and writes report failure
+
+export const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.warn(`Could not persist ${key}.`, error);
+    return false;
+  }
+};
@@ -0,0 +1,368 @@
+import { ConflictZone, Coordinates, CountryFeature, FactionSide } from "../types";
+import { CIVILIAN_DENSITY_LEVELS } from "../constants";
+import { AiProviderId, PROVIDER_LABELS } from "./aiProviders";
+import { normalizeCountryName } from "./countryDataset";
+import { parseSeed } from "./simulationEngine";
+import { ZoneEdit } from "./zoneStore";
+
+// --- TERMINAL COMMAND GRAMMAR ---
+
+export type CampaignAction = 'start' | 'step' | 'run' | 'stop' | 'end';
+
+export type TerminalCommand =
+  | { name: 'help' }
+  | { name: 'select'; side: FactionSide; country: string }
+  | { name: 'deselect'; side: FactionSide }
+  | { name: 'ally-add'; side: FactionSide; country: string }
+  | { name: 'ally-remove'; country: string }
+  | { name: 'ally-commit'; country: string; commitment: number }
+  | { name: 'simulate'; seed?: number }
+  | { name: 'batch'; runs?: number; seed?: number }
+  | { name: 'campaign'; action: CampaignAction; seed?: number }
+  | { name: 'recon'; close: boolean }
+  | { name: 'data'; action: 'import' | 'clear' }
+  | { name: 'link'; provider: AiProviderId | 'config' }
+  | { name: 'scenario'; action: 'save' | 'load' | 'delete'; scenario: string }
+  | { name: 'scenario'; action: 'list' }
+  | { name: 'share' }
+  | { name: 'focus'; country?: string }
+  | { name: 'borders'; country?: string }
+  | { name: 'zone'; action: 'open'; zone: string }
+  | { name: 'zone'; action: 'sitrep'; zone: string }
+  | { name: 'zone'; action: 'list' }
+  | { name: 'zone'; action: 'close' }
+  | { name: 'zone'; action: 'add'; coordinates: Coordinates; zoneName?: string }
+  | { name: 'zone'; action: 'delete'; zone: string }
+  | { name: 'zone'; action: 'set'; zone: string; edit: ZoneEdit }
+  | { name: 'reset' }
+  | { name: 'clear' };
+
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export const COMMAND_HELP: [usage: string, description: string][] = [
+  ['select <A|B> <country>', 'Assign a country to Faction A (aggressor) or B (defender)'],
+  ['deselect <A|B>', 'Clear a faction and its coalition'],
+  ['ally add [A|B] <country>', 'Add a coalition member (default: Faction A)'],
+  ['ally remove <country>', 'Remove a coalition member'],
+  ['ally commit <country> <10-100>', 'Set an ally\'s commitment level in percent'],
+  ['simulate [--seed <n>]', 'Run a war simulation (seed: decimal or 0x hex)'],
+  ['batch [--runs <n>] [--seed <n>]', 'Run a Monte Carlo batch'],
+  ['campaign <start|step|run|stop|end> [--seed <n>]', 'Control the weekly campaign'],
+  ['recon [close]', 'Request a battle visual, or close the feed'],
+  ['data <import|clear>', 'Import a country dataset or unload it'],
+  ['link <gemini|local|offline|config>', 'Switch AI provider or open its settings'],
+  ['scenario <save|load|delete> <name>', 'Manage saved scenarios (matchup, allies, seed, reports)'],
+  ['scenario list', 'List saved scenarios'],
+  ['share', 'Copy a link that restores the current matchup'],
+  ['focus [country]', 'Turn the globe to a country, or frame the whole theatre'],
+  ['borders [country]', 'List a country\'s land neighbors, or the front between the factions'],
+  ['zone list', 'List conflict zones'],
+  ['zone <open|sitrep> <zone>', 'Open a zone dossier (and request a SITREP), or only request the SITREP'],
+  ['zone close', 'Close the zone dossier'],
+  ['zone add <lat> <lng> [name]', 'Create a conflict zone at a coordinate'],
+  ['zone delete <zone>', 'Delete a conflict zone'],
+  ['zone set <zone> [--name <s>] [--units <n>] [--density <level>] [--intel <s>]', 'Edit a conflict zone (quote multi-word values)'],
+  ['reset', 'Clear the whole conflict configuration'],
+  ['clear', 'Clear the terminal'],
+  ['help', 'Show this list']
+];
+
+// Sub-commands offered by tab completion, keyed by command
+const SUBCOMMANDS: Record<string, string[]> = {
+  ally: ['add', 'remove', 'commit'],
+  campaign: ['start', 'step', 'run', 'stop', 'end'],
+  recon: ['close'],
+  data: ['import', 'clear'],
+  link: [...Object.keys(PROVIDER_LABELS), 'config'],
+  scenario: ['save', 'load', 'delete', 'list'],
+  zone: ['list', 'open', 'sitrep', 'close', 'add', 'delete', 'set'],
+  select: ['A', 'B'],
+  deselect: ['A', 'B']
+};
+
+const COMMAND_NAMES = ['select', 'deselect', 'ally', 'simulate', 'batch', 'campaign', 'recon', 'data', 'link', 'scenario', 'share', 'focus', 'borders', 'zone', 'reset', 'clear', 'help'];
+
+/** Splits on whitespace; double quotes group words ("south korea"). */
+export const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1] : match[2]);
+  }
+  return tokens;
+};
+
+const parseSide = (token: string | undefined): FactionSide => {
+  const side = token?.toUpperCase();
+  if (side !== 'A' && side !== 'B') throw new CommandError(`Expected faction A or B, got "${token ?? ''}"`);
+  return side;
+};
+
+const requireCountry = (words: string[], usage: string) => {
+  if (words.length === 0) throw new CommandError(`Missing country. Usage: ${usage}`);
+  return words.join(' ');
+};
+
+// Splits `--flag value` pairs from positional arguments
+const extractFlags = (tokens: string[], allowed: string[]) => {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < tokens.length; i++) {
+    if (!tokens[i].startsWith('--')) {
+      positional.push(tokens[i]);
+      continue;
+    }
+    const flag = tokens[i].slice(2);
+    if (!allowed.includes(flag)) throw new CommandError(`Unknown option --${flag}`);
+    if (tokens[i + 1] === undefined) throw new CommandError(`Option --${flag} needs a value`);
+    flags[flag] = tokens[++i];
+  }
+  return { positional, flags };
+};
+
+const parseSeedFlag = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const seed = parseSeed(value);
+  if (seed === null) throw new CommandError(`Invalid seed "${value}"`);
+  return seed;
+};
+
+const parseIntegerFlag = (value: string | undefined, flag: string, min: number, max: number) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) throw new CommandError(`--${flag} must be an integer from ${min} to ${max}`);
+  return n;
+};
+
+/** Parses one input line. Throws CommandError with a user-facing message. */
+export const parseCommand = (input: string): TerminalCommand => {
+  const [rawName, ...rest] = tokenize(input);
+  const name = rawName?.toLowerCase();
+
+  switch (name) {
+    case 'help':
+      return { name: 'help' };
+    case 'clear':
+      return { name: 'clear' };
+    case 'reset':
+      return { name: 'reset' };
+    case 'select':
+      return { name: 'select', side: parseSide(rest[0]), country: requireCountry(rest.slice(1), 'select <A|B> <country>') };
+    case 'deselect':
+      return { name: 'deselect', side: parseSide(rest[0]) };
+    case 'ally': {
+      const [action, ...args] = rest;
+      switch (action?.toLowerCase()) {
+        case 'add': {
+          // A lone side token is a missing country, not a country named "B"
+          const hasSide = /^[ab]$/i.test(args[0] || '');
+          return {
+            name: 'ally-add',
+            side: hasSide ? parseSide(args[0]) : 'A',
+            country: requireCountry(hasSide ? args.slice(1) : args, 'ally add [A|B] <country>')
+          };
+        }
+        case 'remove':
+          return { name: 'ally-remove', country: requireCountry(args, 'ally remove <country>') };
+        case 'commit': {
+          const percent = Number(args[args.length - 1]);
+          if (args.length < 2 || !Number.isFinite(percent) || percent < 10 || percent > 100) {
+            throw new CommandError('Usage: ally commit <country> <10-100>');
+          }
+          return { name: 'ally-commit', country: args.slice(0, -1).join(' '), commitment: percent / 100 };
+        }
+        default:
+          throw new CommandError('Usage: ally <add|remove|commit> ...');
+      }
+    }
+    case 'simulate': {
+      const { flags } = extractFlags(rest, ['seed']);
+      return { name: 'simulate', seed: parseSeedFlag(flags.seed) };
+    }
+    case 'batch': {
+      const { flags } = extractFlags(rest, ['runs', 'seed']);
+      return { name: 'batch', runs: parseIntegerFlag(flags.runs, 'runs', 1, 100000), seed: parseSeedFlag(flags.seed) };
+    }
+    case 'campaign': {
+      const { positional, flags } = extractFlags(rest, ['seed']);
+      const action = positional[0]?.toLowerCase() as CampaignAction;
+      if (!SUBCOMMANDS.campaign.includes(action)) throw new CommandError('Usage: campaign <start|step|run|stop|end> [--seed <n>]');
+      return { name: 'campaign', action, seed: parseSeedFlag(flags.seed) };
+    }
+    case 'recon':
+      if (rest.length > 0 && rest[0].toLowerCase() !== 'close') throw new CommandError('Usage: recon [close]');
+      return { name: 'recon', close: rest.length > 0 };
+    case 'data': {
+      const action = rest[0]?.toLowerCase();
+      if (action !== 'import' && action !== 'clear') throw new CommandError('Usage: data <import|clear>');
+      return { name: 'data', action };
+    }
+    case 'link': {
+      const provider = rest[0]?.toLowerCase();
+      if (!SUBCOMMANDS.link.includes(provider)) throw new CommandError(`Usage: link <${SUBCOMMANDS.link.join('|')}>`);
+      return { name: 'link', provider: provider as AiProviderId | 'config' };
+    }
+    case 'scenario': {
+      const [action, ...args] = rest;
+      switch (action?.toLowerCase()) {
+        case 'list':
+          return { name: 'scenario', action: 'list' };
+        case 'save':
+        case 'load':
+        case 'delete':
+          if (args.length === 0) throw new CommandError(`Usage: scenario ${action.toLowerCase()} <name>`);
+          return { name: 'scenario', action: action.toLowerCase() as 'save' | 'load' | 'delete', scenario: args.join(' ') };
+        default:
+          throw new CommandError('Usage: scenario <save|load|delete|list> [name]');
+      }
+    }
+    case 'share':
+      return { name: 'share' };
+    case 'focus':
+      return { name: 'focus', country: rest.length > 0 ? rest.join(' ') : undefined };
+    case 'borders':
+      return { name: 'borders', country: rest.length > 0 ? rest.join(' ') : undefined };
+    case 'zone': {
+      const [action, ...args] = rest;
+      switch (action?.toLowerCase()) {
+        case 'list':
+          return { name: 'zone', action: 'list' };
+        case 'close':
+          return { name: 'zone', action: 'close' };
+        case 'open':
+        case 'sitrep': {
+          const zoneAction = action.toLowerCase() as 'open' | 'sitrep';
+          if (args.length === 0) throw new CommandError(`Usage: zone ${zoneAction} <zone>`);
+          return { name: 'zone', action: zoneAction, zone: args.join(' ') };
+        }
+        case 'add': {
+          const [lat, lng] = args.slice(0, 2).map(Number);
+          if (args.length < 2 || !(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+            throw new CommandError('Usage: zone add <lat -90..90> <lng -180..180> [name]');
+          }
+          return { name: 'zone', action: 'add', coordinates: { lat, lng }, zoneName: args.slice(2).join(' ') || undefined };
+        }
+        case 'delete':
+          if (args.length === 0) throw new CommandError('Usage: zone delete <zone>');
+          return { name: 'zone', action: 'delete', zone: args.join(' ') };
+        case 'set': {
+          const { positional, flags } = extractFlags(args, ['name', 'units', 'density', 'intel']);
+          if (positional.length === 0 || Object.keys(flags).length === 0) {
+            throw new CommandError('Usage: zone set <zone> [--name <s>] [--units <n>] [--density <level>] [--intel <s>]');
+          }
+          const edit: ZoneEdit = {};
+          if (flags.name !== undefined) edit.name = flags.name;
+          if (flags.intel !== undefined) edit.intelSummary = flags.intel;
+          if (flags.units !== undefined) edit.activeUnits = parseIntegerFlag(flags.units, 'units', 0, 1000000);
+          if (flags.density !== undefined) {
+            const density = CIVILIAN_DENSITY_LEVELS.find(level => level.toLowerCase() === flags.density.toLowerCase());
+            if (!density) throw new CommandError(`--density must be one of ${CIVILIAN_DENSITY_LEVELS.join(', ')}`);
+            edit.civilianDensity = density;
+          }
+          return { name: 'zone', action: 'set', zone: positional.join(' '), edit };
+        }
+        default:
+          throw new CommandError('Usage: zone <list|open|sitrep|close|add|delete|set> ...');
+      }
+    }
+    case undefined:
+      throw new CommandError('Empty command');
+    default:
+      throw new CommandError(`Unknown command "${rawName}". Type "help" for a list of commands.`);
+  }
+};
+
+// --- NAME LOOKUP ---
+
+/** Exact name, then unique prefix, then unique substring match. */
+const resolveByName = <T>(query: string, items: T[], getNames: (item: T) => string[], kind: string): T => {
+  const needle = normalizeCountryName(query);
+  const names = (item: T) => getNames(item).map(normalizeCountryName);
+  const exact = items.find(item => names(item).includes(needle));
+  if (exact) return exact;
+
+  for (const matcher of [(name: string) => name.startsWith(needle), (name: string) => name.includes(needle)]) {
+    const matches = items.filter(item => names(item).some(matcher));
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      throw new CommandError(`"${query}" is ambiguous: ${matches.slice(0, 5).map(item => getNames(item)[0]).join(', ')}${matches.length > 5 ? ', ...' : ''}`);
+    }
+  }
+  throw new CommandError(`Unknown ${kind} "${query}"`);
+};
+
+export const resolveCountry = (query: string, countries: CountryFeature[]): CountryFeature =>
+  resolveByName(query, countries, c => [c.properties.name], 'country');
+
+// Zones match by name or id ("z-alpha")
+export const resolveZone = (query: string, zones: ConflictZone[]): ConflictZone =>
+  resolveByName(query, zones, z => [z.name, z.id], 'zone');
+
+// --- TAB COMPLETION ---
+
+export interface Completion {
+  input: string;     // Input with the longest unambiguous completion applied
+  options: string[]; // Remaining candidates when ambiguous
+}
+
+const commonPrefix = (values: string[]) => values.reduce((prefix, value) => {
+  let i = 0;
+  while (i < prefix.length && i < value.length && prefix[i].toLowerCase() === value[i].toLowerCase()) i++;
+  return prefix.slice(0, i);
+});
+
+// Index of the first token holding the country name, or -1 if the command takes none
+const countryArgumentIndex = (tokens: string[]) => {
+  const [command, action] = tokens.map(t => t.toLowerCase());
+  if (command === 'select') return 2;
+  if (command === 'focus' || command === 'borders') return 1;
+  if (command !== 'ally') return -1;
+  if (action === 'add') return /^[ab]$/i.test(tokens[2] || '') && tokens.length > 3 ? 3 : 2;
+  return action === 'remove' || action === 'commit' ? 2 : -1;
+};
+
+/**
+ * Completes the word under the cursor (end of input): command names, then
+ * sub-commands, then country names from the loaded topology.
+ */
+export const completeCommand = (input: string, countries: CountryFeature[]): Completion => {
+  const tokens = tokenize(input);
+  const endsWithSpace = /\s$/.test(input);
+  if (endsWithSpace) tokens.push('');
+  if (tokens.length === 0) return { input, options: COMMAND_NAMES };
+
+  let candidates: string[];
+  let replaceFrom: number; // Token index where the completed text starts
+  const countryIndex = countryArgumentIndex(tokens);
+
+  if (tokens.length === 1) {
+    candidates = COMMAND_NAMES;
+    replaceFrom = 0;
+  } else if (countryIndex !== -1 && tokens.length > countryIndex) {
+    candidates = countries.map(c => c.properties.name);
+    replaceFrom = countryIndex;
+  } else if (tokens.length === 2 || (tokens[0].toLowerCase() === 'ally' && tokens[1].toLowerCase() === 'add' && tokens.length === 3)) {
+    candidates = tokens.length === 2 ? SUBCOMMANDS[tokens[0].toLowerCase()] || [] : [];
+    replaceFrom = tokens.length - 1;
+  } else {
+    return { input, options: [] };
+  }
+
+  const typed = tokens.slice(replaceFrom).join(' ');
+  const needle = typed.toLowerCase();
+  const matches = [...new Set(candidates)].filter(c => c.toLowerCase().startsWith(needle)).sort();
+  if (matches.length === 0) return { input, options: [] };
+
+  const head = tokens.slice(0, replaceFrom).join(' ');
+  const completed = matches.length === 1 ? `${matches[0]} ` : commonPrefix(matches);
+  return {
+    input: `${head ? `${head} ` : ''}${completed.length >= typed.length ? completed : typed}`,
+    options: matches.length > 1 ? matches : []
+  };
+};
@@ -0,0 +1,81 @@
+import * as topojson from 'topojson-client';
+import { geoArea } from 'd3';
+import { CountryFeature } from '../types';
+import { BorderGraph, buildBorderGraph, CountriesTopology } from './borderGraph';
+// Bundled as static assets: served from our own origin, fetched only when needed
+import countries110mUrl from 'world-atlas/countries-110m.json?url';
+import countries50mUrl from 'world-atlas/countries-50m.json?url';
+
+// --- WORLD TOPOLOGY ---
+
+export type TopologyResolution = '110m' | '50m';
+export type ResolutionSetting = TopologyResolution | 'auto';
+
+const TOPOLOGY_URLS: Record<TopologyResolution, string> = {
+  '110m': countries110mUrl,
+  '50m': countries50mUrl
+};
+
+// In auto mode, 50m is used once the globe is drawn at least this large (projection scale, px).
+// Below that, 50m detail is sub-pixel and only costs frame time.
+export const DETAIL_SCALE_THRESHOLD = 600;
+
+export const resolveResolution = (setting: ResolutionSetting, projectionScale: number): TopologyResolution => {
+  if (setting !== 'auto') return setting;
+  return projectionScale >= DETAIL_SCALE_THRESHOLD ? '50m' : '110m';
+};
+
+const topologies = new Map<TopologyResolution, Promise<CountriesTopology>>();
+
+/** Fetches a bundled topology once; failed loads are not cached, so they can be retried. */
+const loadTopology = (resolution: TopologyResolution): Promise<CountriesTopology> => {
+  let pending = topologies.get(resolution);
+  if (!pending) {
+    pending = fetch(TOPOLOGY_URLS[resolution]).then(response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status} loading ${resolution} topology`);
+      return response.json();
+    });
+    pending.catch(() => topologies.delete(resolution));
+    topologies.set(resolution, pending);
+  }
+  return pending;
+};
+
+/**
+ * Feature ids are used as keys everywhere (selection, share links, datasets), so they
+ * must be unique. A few disputed territories (Kosovo, N. Cyprus, ...) have no ISO id,
+ * and at 50m some dependencies share their country's (Ashmore and Cartier Is. is
+ * '036', like Australia). Those fall back to their name; the largest keeps the code.
+ */
+const withUniqueIds = (features: CountryFeature[]): CountryFeature[] => {
+  const owners = new Map<string | number, CountryFeature>();
+  features.forEach(feature => {
+    if (feature.id === undefined) return;
+    const owner = owners.get(feature.id);
+    if (!owner || geoArea(feature) > geoArea(owner)) owners.set(feature.id, feature);
+  });
+  return features.map(feature =>
+    feature.id !== undefined && owners.get(feature.id) === feature ? feature : { ...feature, id: feature.properties.name });
+};
+
+const cache = new Map<TopologyResolution, Promise<CountryFeature[]>>();
+
+/** Loads and converts a bundled topology once; failed loads are not cached, so they can be retried. */
+export const loadCountries = (resolution: TopologyResolution): Promise<CountryFeature[]> => {
+  let pending = cache.get(resolution);
+  if (!pending) {
+    pending = loadTopology(resolution)
+      .then(topology => withUniqueIds(topojson.feature(topology, topology.objects.countries).features as CountryFeature[]));
+    pending.catch(() => cache.delete(resolution));
+    cache.set(resolution, pending);
+  }
+  return pending;
+};
+
+/**
+ * Land borders, always from the 110m topology (the one loaded at startup), so
+ * simulation results do not depend on the map detail being drawn.
+ */
+export const loadBorderGraph = (): Promise<BorderGraph> =>
+  Promise.all([loadTopology('110m'), loadCountries('110m')])
+    .then(([topology, features]) => buildBorderGraph(topology, features));
@@ -0,0 +1,114 @@
+import { Belligerents, ConflictZone, ThreatLevel } from "../types";
+import { geoDistance } from "d3";
+import { EARTH_RADIUS_KM } from "../constants";
+import { getCentroid } from "./powerProjection";
+import { createRng, randomSeed } from "./simulationEngine";
+
+// --- PROCEDURAL SITREP (Fallback when the AI link is unavailable) ---
+
+// Baseline odds of holding the zone and report phrasing, per threat level
+const THREAT_PROFILE: Record<ThreatLevel, { baseWinChance: number; assessment: string[]; actions: string[] }> = {
+  [ThreatLevel.LOW]: {
+    baseWinChance: 90,
+    assessment: ['Sector stable; hostile presence negligible.', 'No organized resistance detected; routine activity only.'],
+    actions: ['Maintain patrol cadence and passive surveillance.', 'Reassign surplus units to higher-threat sectors.']
+  },
+  [ThreatLevel.MODERATE]: {
+    baseWinChance: 75,
+    assessment: ['Intermittent hostile probing; situation contained.', 'Irregular activity trending upward; control holds.'],
+    actions: ['Increase drone overwatch and harden supply routes.', 'Deploy rapid-response team on standby.']
+  },
+  [ThreatLevel.HIGH]: {
+    baseWinChance: 58,
+    assessment: ['Coordinated hostile operations in progress; control contested.', 'Enemy force concentration exceeds local defensive capacity.'],
+    actions: ['Reinforce with armored elements and establish air superiority.', 'Initiate electronic countermeasures and isolate the grid.']
+  },
+  [ThreatLevel.CRITICAL]: {
+    baseWinChance: 40,
+    assessment: ['Sector integrity failing; imminent loss of control.', 'Full-spectrum assault underway; civilian infrastructure compromised.'],
+    actions: ['Authorize full mobilization and evacuate non-combatants.', 'Commit strategic reserves; prepare fallback perimeter.']
+  }
+};
+
+export const buildProceduralSitrep = (zone: ConflictZone, seed: number = randomSeed()): string => {
+  const rng = createRng(seed);
+  const profile = THREAT_PROFILE[zone.threatLevel];
+  const pick = (options: string[]) => options[Math.floor(rng() * options.length)];
+
+  // More friendly units on station improve the odds, with diminishing returns
+  const unitBonus = Math.min(15, Math.log10(Math.max(1, zone.activeUnits)) * 4);
+  const winChance = Math.round(Math.max(5, Math.min(97, profile.baseWinChance + unitBonus + (rng() - 0.5) * 10)));
+
+  return `
+SITREP // ${zone.name.toUpperCase()} [OFFLINE PROTOCOL]
+1. STRATEGIC ASSESSMENT: ${pick(profile.assessment)} ${zone.intelSummary}
+2. PREDICTED OUTCOME: ${winChance}% win probability with ${zone.activeUnits.toLocaleString('en-US')} units on station.
+3. RECOMMENDED ACTION: ${pick(profile.actions)}${zone.civilianDensity === 'High' || zone.civilianDensity === 'Extreme' ? ` Restrict kinetic options: civilian density ${zone.civilianDensity.toUpperCase()}.` : ''}
+  `.trim();
+};
+
+// --- THREAT EVOLUTION ---
+// Each zone carries a tension score (0-100); the threat level is its quartile.
+// Wars near a zone raise tension with distance falloff; over time it relaxes
+// back to the middle of the zone's authored level.
+
+export const THREAT_ORDER: ThreatLevel[] = [ThreatLevel.LOW, ThreatLevel.MODERATE, ThreatLevel.HIGH, ThreatLevel.CRITICAL];
+const TENSION_BAND = 25;
+const WAR_INFLUENCE_KM = 2500; // Beyond this, a war does not affect a zone
+
+export interface ThreatChange {
+  zone: ConflictZone;
+  from: ThreatLevel;
+  to: ThreatLevel;
+}
+
+export const threatForTension = (tension: number): ThreatLevel =>
+  THREAT_ORDER[Math.max(0, Math.min(THREAT_ORDER.length - 1, Math.floor(tension / TENSION_BAND)))];
+
+const bandMidpoint = (level: ThreatLevel) => THREAT_ORDER.indexOf(level) * TENSION_BAND + TENSION_BAND / 2;
+
+export const getBaselineTension = (zone: ConflictZone) => bandMidpoint(zone.baseThreatLevel ?? zone.threatLevel);
+
+export const getZoneTension = (zone: ConflictZone) => zone.tension ?? bandMidpoint(zone.threatLevel);
+
+// Moves tension by delta, at most one threat level per call, and reports level changes
+const shiftTension = (zones: ConflictZone[], deltaFor: (zone: ConflictZone) => number) => {
+  const changes: ThreatChange[] = [];
+  const updated = zones.map(zone => {
+    const delta = deltaFor(zone);
+    if (delta === 0) return zone;
+    const current = getZoneTension(zone);
+    const level = THREAT_ORDER.indexOf(threatForTension(current));
+    const floor = Math.max(0, (level - 1) * TENSION_BAND);
+    const ceiling = Math.min(100, (level + 2) * TENSION_BAND - 0.01);
+    const tension = Math.max(floor, Math.min(ceiling, current + delta));
+    const threatLevel = threatForTension(tension);
+    const next = { ...zone, tension, threatLevel, baseThreatLevel: zone.baseThreatLevel ?? zone.threatLevel };
+    if (threatLevel !== zone.threatLevel) changes.push({ zone: next, from: zone.threatLevel, to: threatLevel });
+    return next;
+  });
+  return { zones: updated, changes };
+};
+
+/** The war's theatre: centroids of the two principal belligerents. */
+export const getWarTheatre = (belligerents: Belligerents): [number, number][] =>
+  [belligerents.aggressor, belligerents.defender].map(getCentroid);
+
+/**
+ * Applies a war fought between the given theatre points ([lng, lat] centroids of
+ * the belligerents). `intensity` is the tension added at zero distance.
+ */
+export const applyWarPressure = (zones: ConflictZone[], theatre: [number, number][], intensity: number) =>
+  shiftTension(zones, zone => {
+    if (theatre.length === 0) return 0;
+    const position: [number, number] = [zone.coordinates.lng, zone.coordinates.lat];
+    const nearestKm = Math.min(...theatre.map(point => geoDistance(position, point) * EARTH_RADIUS_KM));
+    return intensity * Math.max(0, 1 - nearestKm / WAR_INFLUENCE_KM);
+  });
+
+/** Moves every zone up to `amount` back toward its baseline; call on a timer. */
+export const relaxZoneTensions = (zones: ConflictZone[], amount: number) =>
+  shiftTension(zones, zone => {
+    const gap = getBaselineTension(zone) - getZoneTension(zone);
+    return Math.sign(gap) * Math.min(Math.abs(gap), amount);
+  });
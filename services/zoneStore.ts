@@ -0,0 +1,45 @@
+import { ConflictZone, Coordinates, ThreatLevel } from "../types";
+import { CONFLICT_ZONES } from "../constants";
+import { readJson, writeJson } from "./storage";
+
+// --- ZONE PERSISTENCE ---
+// The authored zone set, seeded with CONFLICT_ZONES until the user edits it
+
+const ZONES_KEY = 'aegis.zones';
+
+const isZone = (value: unknown): value is ConflictZone => {
+  if (!value || typeof value !== 'object') return false;
+  const zone = value as Partial<ConflictZone>;
+  return typeof zone.id === 'string' && typeof zone.name === 'string' &&
+    typeof zone.coordinates?.lat === 'number' && typeof zone.coordinates?.lng === 'number' &&
+    Object.values(ThreatLevel).includes(zone.threatLevel) &&
+    Number.isFinite(zone.activeUnits) &&
+    typeof zone.civilianDensity === 'string' && typeof zone.intelSummary === 'string';
+};
+
+export const loadZones = (): ConflictZone[] => {
+  const stored = readJson<unknown>(ZONES_KEY, null);
+  return Array.isArray(stored) ? stored.filter(isZone) : CONFLICT_ZONES;
+};
+
+export const saveZones = (zones: ConflictZone[]) => writeJson(ZONES_KEY, zones);
+
+// --- AUTHORING ---
+
+export type ZoneEdit = Partial<Pick<ConflictZone, 'name' | 'activeUnits' | 'civilianDensity' | 'intelSummary'>>;
+
+export const createZone = (coordinates: Coordinates, name?: string): ConflictZone => {
+  const id = `z-${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    name: name?.trim() || `Sector ${id.slice(2).toUpperCase()}`,
+    coordinates: { lat: Number(coordinates.lat.toFixed(4)), lng: Number(coordinates.lng.toFixed(4)) },
+    threatLevel: ThreatLevel.LOW,
+    activeUnits: 0,
+    civilianDensity: 'Low',
+    intelSummary: 'No intel gathered yet.'
+  };
+};
+
+export const updateZone = (zones: ConflictZone[], id: string, edit: ZoneEdit) =>
+  zones.map(zone => zone.id === id ? { ...zone, ...edit } : zone);
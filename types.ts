@@ -18,6 +18,9 @@ export interface ConflictZone {
   activeUnits: number;
   civilianDensity: string;
   intelSummary: string;
+  // Threat evolution: tension (0-100) sets threatLevel and relaxes back to the authored level
+  tension?: number;
+  baseThreatLevel?: ThreatLevel; // Authored level; defaults to threatLevel
 }
 
 export interface SystemLog {
@@ -25,6 +28,8 @@ export interface SystemLog {
   timestamp: string;
   message: string;
   type: 'INFO' | 'WARNING' | 'ERROR' | 'AI' | 'COMBAT';
+  report?: SimulationReport; // Structured payload for simulation results; message holds the plain-text rendering
+  truncated?: boolean;       // Streamed output cut off by a dropped AI link
 }
 
 export interface ChartData {
@@ -43,8 +48,216 @@ export interface CountryFeature {
   geometry: any;
 }
 
+export type MapProjection = 'globe' | 'equal-earth' | 'mercator';
+
+export type RenderQuality = 'low' | 'medium' | 'high';
+
+// Imperative camera control exposed by HoloGlobe (ref); calls animate from the current view
+export interface GlobeCamera {
+  flyTo: (coordinates: Coordinates, zoom?: number) => void; // Keeps the current zoom when omitted
+  focusCountry: (country: CountryFeature) => void;          // Center a country without changing zoom
+  frameTheatre: (countries: CountryFeature[]) => void;      // Center and zoom to fit all countries
+}
+
+export type FactionSide = 'A' | 'B'; // A = aggressor bloc, B = defender bloc
+
+export type CountryRole = 'AGGRESSOR' | 'DEFENDER' | 'AGGRESSOR_ALLY' | 'DEFENDER_ALLY';
+
 export interface WarState {
   aggressor: CountryFeature | null;
   defender: CountryFeature | null;
+  aggressorAllies: CountryFeature[]; // Allies joining the aggressor's offensive against the defender
   defenderAllies: CountryFeature[]; // Allies joining the defender to attack the aggressor
-}
\ No newline at end of file
+  allyCommitment: Record<string, number>; // Optional per-ally commitment (0-1) keyed by feature id
+}
+
+// Where the fighting happens, from the land border graph. Plain data: it travels to the Monte Carlo worker.
+export type TerrainKind = 'LAND' | 'OVERSEAS'; // LAND when the two blocs share a land border
+
+export interface TheatreTerrain {
+  kind: TerrainKind;
+  frontKm: number; // Length of the land border between the blocs
+}
+
+// The parties to a war. WarState satisfies this once both factions are selected.
+export interface Belligerents {
+  aggressor: CountryFeature;
+  defender: CountryFeature;
+  aggressorAllies: CountryFeature[];
+  defenderAllies: CountryFeature[];
+  allyCommitment?: Record<string, number>; // Missing entries use DEFAULT_ALLY_COMMITMENT
+  terrain?: TheatreTerrain; // Missing until the border graph is loaded: no terrain effect
+}
+
+// Country Stats
+export interface CountryStats {
+  infantry: number;
+  armor: number;
+  air: number;
+  cyber: number;
+  logistics: number;
+  intel: number;
+  manpower: number;
+  techLevel: number; // 1-10
+}
+
+// Simulation Engine
+export interface SimulationModifiers {
+  aggressorMultiplier?: number; // Scales the aggressor's power score (default 1)
+  defenderMultiplier?: number;  // Scales the defender's power score (default 1)
+}
+
+export interface SimulationInput extends Belligerents {
+  modifiers?: SimulationModifiers;
+  seed: number;
+}
+
+export interface SimulationResult {
+  seed: number;
+  winner: string;
+  loser: string;
+  aggressorWins: boolean;
+  chanceA: number; // Pre-roll probability that the aggressor wins (0-1)
+  isCloseMatch: boolean;
+  battleType: string;
+  externalEvent: string;
+  confidence: number; // Reported confidence in percent
+  durationWeeks: number; // Estimated length of the war
+  turningPoint: string;
+  casualties: {
+    aggressor: number;
+    defender: number;
+  };
+  scores: {
+    aggressor: number;
+    defender: number;
+    aggressorAllies: number;
+    defenderAllies: number;
+  };
+}
+
+// Power projection of one belligerent fighting away from home (see getProjectionFactor)
+export interface LogisticsEntry {
+  name: string;
+  distanceKm: number; // Great-circle distance from its centroid to the theatre
+  factor: number;     // Multiplier on its power (0-1)
+}
+
+// Structured simulation report, produced by the AI (via response schema) or the procedural engine
+export interface SimulationReport {
+  source: 'AI' | 'PROCEDURAL';
+  seed: number;
+  aggressor: string;
+  defender: string;
+  aggressorAllies: string[];
+  defenderAllies: string[];
+  winner: string;
+  winningSide: FactionSide;
+  confidence: number; // Percent
+  turningPoint: string;
+  casualties: {
+    aggressor: number;
+    defender: number;
+  };
+  battleType: string;
+  externalEvents: string[];
+  narrative: string[]; // Paragraphs
+  durationWeeks: number | null;
+  logistics?: LogisticsEntry[]; // Missing on reports saved before distance penalties
+}
+
+// Monte Carlo Batch
+export interface BatchSummary {
+  aggressor: string;
+  defender: string;
+  runs: number;
+  baseSeed: number;
+  aggressorWins: number;
+  winProbability: number;           // Aggressor win rate (0-1)
+  confidenceInterval: [number, number]; // 95% Wilson interval on winProbability
+  battleTypes: Record<string, number>;  // Occurrences per battle type
+  externalEvents: Record<string, number>;
+  averageDurationWeeks: number;
+  elapsedMs: number;
+}
+
+// Campaign Mode
+export type CombatStat = 'infantry' | 'armor' | 'air' | 'cyber' | 'logistics' | 'intel';
+
+export interface CampaignSide {
+  name: string;
+  strength: Record<CombatStat, number>; // Remaining rating per stat (starts at the country's stats)
+  initialStrength: number; // Average rating at the start of the campaign
+  techLevel: number;
+  manpower: number;  // Remaining personnel
+  attrition: number; // Cumulative personnel lost
+  morale: number;    // 0-100
+  territory: number; // % of own homeland still controlled
+}
+
+export interface CampaignTurn {
+  turn: number;
+  intensity: number;     // 0-1 combat intensity for the week
+  advantage: number;     // Aggressor share of effective power this turn (0-1)
+  aggressorLosses: number;
+  defenderLosses: number;
+  territoryShift: number; // Positive = aggressor gained ground
+  territory: { aggressor: number; defender: number }; // % of homeland held at the end of the week
+  summary: string;
+}
+
+export interface CampaignOutcome {
+  winner: string | null; // null = negotiated stalemate
+  reason: string;
+}
+
+export interface CampaignState {
+  seed: number;
+  turn: number;
+  maxTurns: number;
+  aggressor: CampaignSide;
+  defender: CampaignSide;
+  aggressorAllies: string[];
+  defenderAllies: string[];
+  aggressorAllySupport: number; // Coalition power added to each side every turn
+  defenderAllySupport: number;
+  terrain?: TerrainKind; // Weights the arms every turn, as in getPowerBalance
+  aggressorReach?: number; // Aggressor power-projection factor; allies' is baked into their support
+  history: CampaignTurn[];
+  outcome: CampaignOutcome | null;
+}
+
+// Battle Timeline: one point per week of the most recent war, for the chart and the globe replay
+export interface TimelinePoint {
+  turn: number;
+  intensity: number;           // 0-1 combat intensity for the week
+  aggressorCasualties: number; // Cumulative personnel lost
+  defenderCasualties: number;
+  control: number;             // Aggressor's net ground in % of homeland: ground taken minus ground lost
+  summary: string;
+}
+
+export interface WarTimeline {
+  source: 'CAMPAIGN' | 'SIMULATION';
+  aggressor: string;
+  defender: string;
+  points: TimelinePoint[];
+}
+
+// Saved / Shared Scenarios
+// Countries are stored by feature id and resolved against the topology on load
+export interface ScenarioSnapshot {
+  aggressorId: string | null;
+  defenderId: string | null;
+  aggressorAllyIds: string[];
+  defenderAllyIds: string[];
+  allyCommitment: Record<string, number>;
+  seed: number | null; // Seed of the latest simulation, for replay
+}
+
+export interface SavedScenario extends ScenarioSnapshot {
+  name: string;
+  savedAt: string;    // ISO timestamp
+  aiProvider: string; // AiProviderId at save time
+  reports: SimulationReport[];
+}